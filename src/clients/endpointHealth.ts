@@ -0,0 +1,214 @@
+// path: src/clients/endpointHealth.ts
+/**
+ * Keeps a health record per RPC endpoint (latency, error rate, head lag) and
+ * decides which endpoint should be used. Endpoints are ranked by the order
+ * they are configured in: the first healthy one wins, so we fail over when
+ * the current endpoint degrades and fail back once a preferred one recovers.
+ */
+
+import {
+  ENDPOINT_MAX_ERROR_RATE,
+  ENDPOINT_MAX_HEAD_LAG,
+  ENDPOINT_MAX_LATENCY_MS,
+} from "../config";
+
+export type EndpointKind = "ws" | "http";
+
+export interface EndpointHealth {
+  url: string;
+  kind: EndpointKind;
+  // Position in the configured list, lower is preferred
+  priority: number;
+  // Exponential moving average of probe latencies
+  latencyMs: number | null;
+  // Outcome of the most recent requests, true = success
+  recentResults: boolean[];
+  consecutiveSuccesses: number;
+  head: bigint | null;
+  headLag: number | null;
+  lastError: string | null;
+  lastCheckedAt: Date | null;
+}
+
+const RESULT_WINDOW = 20; // How many results the error rate is computed over
+const LATENCY_SMOOTHING = 0.3; // Weight of the newest latency sample
+const FAILBACK_MIN_SUCCESSES = 3; // Successes needed before failing back
+
+const endpoints: Map<string, EndpointHealth> = new Map();
+
+function pushResult(health: EndpointHealth, ok: boolean) {
+  health.recentResults.push(ok);
+  if (health.recentResults.length > RESULT_WINDOW) {
+    health.recentResults.shift();
+  }
+  health.consecutiveSuccesses = ok ? health.consecutiveSuccesses + 1 : 0;
+  health.lastCheckedAt = new Date();
+}
+
+/**
+ * Register the configured endpoints of a kind, in order of preference.
+ */
+export function registerEndpoints(kind: EndpointKind, urls: string[]): void {
+  urls.forEach((url, priority) => {
+    if (endpoints.has(url)) return;
+    endpoints.set(url, {
+      url,
+      kind,
+      priority,
+      latencyMs: null,
+      recentResults: [],
+      consecutiveSuccesses: 0,
+      head: null,
+      headLag: null,
+      lastError: null,
+      lastCheckedAt: null,
+    });
+  });
+}
+
+/**
+ * Record a successful request. Latency and head are only passed by probes,
+ * so slow queries like getLogs don't skew the latency average.
+ */
+export function recordSuccess(
+  url: string,
+  sample: { latencyMs?: number; head?: bigint } = {}
+): void {
+  const health = endpoints.get(url);
+  if (!health) return;
+
+  if (sample.latencyMs !== undefined) {
+    health.latencyMs =
+      health.latencyMs === null
+        ? sample.latencyMs
+        : LATENCY_SMOOTHING * sample.latencyMs +
+          (1 - LATENCY_SMOOTHING) * health.latencyMs;
+  }
+  if (sample.head !== undefined) {
+    health.head = sample.head;
+  }
+  pushResult(health, true);
+}
+
+/**
+ * Record a failed request.
+ */
+export function recordFailure(url: string, error: unknown): void {
+  const health = endpoints.get(url);
+  if (!health) return;
+
+  health.lastError = (error as Error)?.message || String(error);
+  pushResult(health, false);
+}
+
+/**
+ * Recompute each endpoint's lag behind the highest head seen across all
+ * endpoints (of both kinds, they serve the same chain).
+ */
+export function updateHeadLags(): void {
+  let maxHead: bigint | null = null;
+  for (const health of endpoints.values()) {
+    if (health.head !== null && (maxHead === null || health.head > maxHead)) {
+      maxHead = health.head;
+    }
+  }
+  for (const health of endpoints.values()) {
+    health.headLag =
+      maxHead === null || health.head === null
+        ? null
+        : Number(maxHead - health.head);
+  }
+}
+
+function getErrorRate(health: EndpointHealth): number {
+  if (health.recentResults.length === 0) return 0;
+  const failures = health.recentResults.filter((ok) => !ok).length;
+  return failures / health.recentResults.length;
+}
+
+/**
+ * An endpoint is healthy when its error rate, latency and head lag are all
+ * within the configured limits. Endpoints never checked count as healthy.
+ */
+export function isEndpointHealthy(health: EndpointHealth): boolean {
+  return (
+    getErrorRate(health) <= ENDPOINT_MAX_ERROR_RATE &&
+    (health.latencyMs === null ||
+      health.latencyMs <= ENDPOINT_MAX_LATENCY_MS) &&
+    (health.headLag === null || health.headLag <= ENDPOINT_MAX_HEAD_LAG)
+  );
+}
+
+/**
+ * A 0-100 score summarizing an endpoint's health, used for reporting and
+ * for picking the least bad endpoint when none is healthy.
+ */
+export function getEndpointScore(health: EndpointHealth): number {
+  const errorPenalty = getErrorRate(health) * 50;
+  const latencyPenalty = Math.min((health.latencyMs ?? 0) / 100, 25);
+  const lagPenalty = Math.min((health.headLag ?? 0) * 2, 25);
+  return Math.max(
+    0,
+    Math.round(100 - errorPenalty - latencyPenalty - lagPenalty)
+  );
+}
+
+/**
+ * Returns the endpoints of a kind, best first: healthy endpoints in order of
+ * preference, then unhealthy ones by score.
+ */
+export function getRankedEndpoints(kind: EndpointKind): EndpointHealth[] {
+  const all = Array.from(endpoints.values()).filter((e) => e.kind === kind);
+  const healthy = all
+    .filter(isEndpointHealthy)
+    .sort((a, b) => a.priority - b.priority);
+  const unhealthy = all
+    .filter((e) => !isEndpointHealthy(e))
+    .sort((a, b) => getEndpointScore(b) - getEndpointScore(a));
+  return [...healthy, ...unhealthy];
+}
+
+/**
+ * Decide which endpoint of a kind should be used, given the current one.
+ * Failing back to a preferred endpoint waits until it had a few successes
+ * in a row, so a flapping endpoint doesn't cause constant switches.
+ */
+export function selectEndpoint(kind: EndpointKind, currentUrl: string): string {
+  const [best] = getRankedEndpoints(kind);
+  if (!best || best.url === currentUrl) return currentUrl;
+
+  const current = endpoints.get(currentUrl);
+  const isFailback =
+    current !== undefined &&
+    isEndpointHealthy(current) &&
+    best.priority < current.priority;
+  if (isFailback && best.consecutiveSuccesses < FAILBACK_MIN_SUCCESSES) {
+    return currentUrl;
+  }
+
+  // Stay put if nothing is healthy and the best option isn't any better
+  if (
+    current !== undefined &&
+    !isEndpointHealthy(best) &&
+    getEndpointScore(best) <= getEndpointScore(current)
+  ) {
+    return currentUrl;
+  }
+
+  return best.url;
+}
+
+/**
+ * Short one-line summary of an endpoint's health for logs.
+ */
+export function describeEndpoint(url: string): string {
+  const health = endpoints.get(url);
+  if (!health) return url;
+  const latency =
+    health.latencyMs === null ? "n/a" : `${Math.round(health.latencyMs)}ms`;
+  return (
+    `${url} (score=${getEndpointScore(health)}, latency=${latency}, ` +
+    `errorRate=${Math.round(getErrorRate(health) * 100)}%, ` +
+    `headLag=${health.headLag ?? "n/a"})`
+  );
+}
@@ -0,0 +1,104 @@
+// path: src/clients/endpointMonitor.ts
+/**
+ * Periodically probes every configured WS and HTTP endpoint, feeds the
+ * results into the endpoint health records, and fails over (or back) when
+ * the ranking says another endpoint should be used.
+ */
+
+import {
+  ENDPOINT_PROBE_INTERVAL_SECONDS,
+  RPC_URLS,
+  WS_RPC_URLS,
+} from "../config";
+import {
+  describeEndpoint,
+  recordFailure,
+  recordSuccess,
+  selectEndpoint,
+  updateHeadLags,
+  type EndpointKind,
+} from "./endpointHealth";
+import {
+  getHttpClientFor,
+  getSelectedHttpUrl,
+  setSelectedHttpUrl,
+} from "./httpClient";
+import {
+  getWebSocketStatus,
+  getWsClientFor,
+  switchWsEndpoint,
+} from "./wsClient";
+
+let isProbing = false;
+
+/**
+ * Measure an endpoint's latency and head with a getBlockNumber call.
+ */
+async function probeEndpoint(kind: EndpointKind, url: string) {
+  const client = kind === "http" ? getHttpClientFor(url) : getWsClientFor(url);
+  const startedAt = Date.now();
+  try {
+    // Bypass the client cache so every probe hits the endpoint
+    const head = await client.getBlockNumber({ cacheTime: 0 });
+    recordSuccess(url, { latencyMs: Date.now() - startedAt, head });
+  } catch (err) {
+    recordFailure(url, err);
+    console.warn(
+      `[endpointMonitor] Probe of ${url} failed: ${(err as Error).message}`
+    );
+  }
+}
+
+/**
+ * Probe all endpoints, then switch the HTTP and WS selections if needed.
+ */
+async function probeAndSelect() {
+  await Promise.all([
+    ...RPC_URLS.map((url) => probeEndpoint("http", url)),
+    ...WS_RPC_URLS.map((url) => probeEndpoint("ws", url)),
+  ]);
+  updateHeadLags();
+
+  const currentHttpUrl = getSelectedHttpUrl();
+  const nextHttpUrl = selectEndpoint("http", currentHttpUrl);
+  if (nextHttpUrl !== currentHttpUrl) {
+    console.warn(
+      `[endpointMonitor] HTTP endpoint switch: ${describeEndpoint(currentHttpUrl)} -> ${describeEndpoint(nextHttpUrl)}`
+    );
+    setSelectedHttpUrl(nextHttpUrl);
+  }
+
+  const currentWsUrl = getWebSocketStatus().endpoint;
+  const nextWsUrl = selectEndpoint("ws", currentWsUrl);
+  if (nextWsUrl !== currentWsUrl) {
+    console.warn(
+      `[endpointMonitor] WebSocket endpoint switch: ${describeEndpoint(currentWsUrl)} -> ${describeEndpoint(nextWsUrl)}`
+    );
+    await switchWsEndpoint(nextWsUrl);
+  }
+}
+
+/**
+ * Start probing endpoints every ENDPOINT_PROBE_INTERVAL_SECONDS.
+ * This function should be called once at application startup.
+ */
+export function startEndpointMonitor() {
+  console.log(
+    `[endpointMonitor] Probing ${RPC_URLS.length} HTTP and ${WS_RPC_URLS.length} WebSocket endpoints...`
+  );
+
+  const runCycle = async () => {
+    if (isProbing) return;
+    isProbing = true;
+    try {
+      await probeAndSelect();
+    } catch (err) {
+      console.error("[endpointMonitor] Error in probe cycle:", err);
+    } finally {
+      isProbing = false;
+    }
+  };
+
+  runCycle();
+  setInterval(runCycle, ENDPOINT_PROBE_INTERVAL_SECONDS * 1000);
+}
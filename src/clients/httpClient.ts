@@ -0,0 +1,133 @@
+// path: src/clients/httpClient.ts
+/**
+ * Provides a shared HTTP-based public client for interacting with the chain.
+ * Used for historical queries (getLogs, current head) that must keep working
+ * while the WebSocket transport is down or reconnecting.
+ *
+ * Requests go to the currently selected endpoint among RPC_URLS and fail over
+ * to the next ranked endpoint when it errors.
+ */
+
+import {
+  createPublicClient,
+  custom,
+  http,
+  InvalidParamsRpcError,
+  InvalidRequestRpcError,
+  ParseRpcError,
+  RpcError,
+  TransactionRejectedRpcError,
+  type EIP1193Parameters,
+  type PublicRpcSchema,
+} from "viem";
+import { abstract } from "viem/chains";
+import { RPC_URLS } from "../config";
+import {
+  getRankedEndpoints,
+  recordFailure,
+  recordSuccess,
+  registerEndpoints,
+} from "./endpointHealth";
+
+registerEndpoints("http", RPC_URLS);
+
+// JSON-RPC errors about the request itself, which every endpoint would return
+const DETERMINISTIC_RPC_ERROR_CODES: number[] = [
+  ParseRpcError.code,
+  InvalidRequestRpcError.code,
+  InvalidParamsRpcError.code,
+  TransactionRejectedRpcError.code,
+];
+
+let selectedHttpUrl = RPC_URLS[0];
+
+// One client per endpoint, created lazily
+const httpClients: Map<string, ReturnType<typeof createHttpClient>> = new Map();
+
+function createHttpClient(url: string) {
+  return createPublicClient({
+    chain: abstract,
+    transport: http(url, {
+      // Retry once on the same endpoint, then let the failover take over
+      retryCount: 1,
+      timeout: 20_000,
+    }),
+  });
+}
+
+/**
+ * Returns the client bound to a specific HTTP endpoint.
+ */
+export function getHttpClientFor(url: string) {
+  let client = httpClients.get(url);
+  if (!client) {
+    client = createHttpClient(url);
+    httpClients.set(url, client);
+  }
+  return client;
+}
+
+/**
+ * Returns the HTTP endpoint requests are currently sent to.
+ */
+export function getSelectedHttpUrl(): string {
+  return selectedHttpUrl;
+}
+
+/**
+ * Switch the endpoint requests are sent to.
+ */
+export function setSelectedHttpUrl(url: string): void {
+  selectedHttpUrl = url;
+}
+
+/**
+ * Returns true for errors another endpoint would return too: malformed
+ * requests and reverted calls. Rate limits, internal errors and unavailable
+ * resources depend on the node and are worth failing over for.
+ */
+function isDeterministicError(err: unknown): boolean {
+  if (!(err instanceof RpcError)) return false;
+  return (
+    DETERMINISTIC_RPC_ERROR_CODES.includes(err.code) ||
+    /execution reverted/i.test(err.details)
+  );
+}
+
+/**
+ * Send a request to the selected endpoint, then to the other endpoints in
+ * rank order until one answers. Deterministic errors are rethrown without
+ * trying another endpoint or counting against its health.
+ */
+async function requestWithFailover(
+  args: EIP1193Parameters<PublicRpcSchema>
+): Promise<unknown> {
+  const urls = [
+    selectedHttpUrl,
+    ...getRankedEndpoints("http")
+      .map((endpoint) => endpoint.url)
+      .filter((url) => url !== selectedHttpUrl),
+  ];
+
+  let lastError: unknown;
+  for (const url of urls) {
+    try {
+      const result = await getHttpClientFor(url).request(args);
+      recordSuccess(url);
+      return result;
+    } catch (err) {
+      if (isDeterministicError(err)) throw err;
+      recordFailure(url, err);
+      lastError = err;
+      console.warn(
+        `[sharedHttpClient] Request ${args.method} failed on ${url}: ${(err as Error).message}`
+      );
+    }
+  }
+  throw lastError;
+}
+
+export const sharedHttpClient = createPublicClient({
+  chain: abstract,
+  transport: custom({ request: requestWithFailover }),
+});
@@ -3,11 +3,20 @@
  * Provides a shared WebSocket-based public client for interacting with the chain.
  * This enhanced version ensures robust reconnection handling with proper error management
  * to prevent application termination on socket errors.
+ *
+ * One client is kept per endpoint in WS_RPC_URLS; the endpoint monitor decides
+ * which one is active and switchWsEndpoint moves every subscription over.
  */
 
-import { createPublicClient, webSocket, type PublicClient } from "viem";
+import {
+  createPublicClient,
+  webSocket,
+  type PublicClient,
+  type WebSocketTransport,
+} from "viem";
 import { abstract } from "viem/chains";
-import { WS_RPC_URL } from "../config";
+import { WS_RPC_URLS } from "../config";
+import { describeEndpoint, registerEndpoints } from "./endpointHealth";
 
 /**
  * Computes an exponential backoff delay, capped at a certain maximum.
@@ -23,19 +32,190 @@ function exponentialBackoffDelay({
   return Math.min(delay, maxDelayMs);
 }
 
-// Keep track of active subscriptions to restore them on reconnection
-const activeSubscriptions: Array<() => void> = [];
+/**
+ * A subscription setup function. It (re)creates a watcher and may return
+ * the watcher's unsubscribe handle so it can be torn down later.
+ */
+type SubscriptionSetup = () =>
+  | (() => void)
+  | void
+  | Promise<(() => void) | void>;
+
+interface Subscription {
+  setup: SubscriptionSetup;
+  unsubscribe: (() => void) | null;
+  // Bumped on every setup so a slow setup can't overwrite a newer one
+  generation: number;
+}
+
+// Keep track of subscriptions by stable key to restore them on reconnection
+const subscriptions: Map<string, Subscription> = new Map();
+
+registerEndpoints("ws", WS_RPC_URLS);
 
-// Track the WebSocket connection status
-let isConnected = false;
+// The endpoint whose client the subscriptions currently run on
+let activeWsUrl = WS_RPC_URLS[0];
+
+type WsClient = PublicClient<WebSocketTransport, typeof abstract>;
+
+// One client per endpoint, created lazily
+const wsClients: Map<string, WsClient> = new Map();
+
+// Track the WebSocket connection status of every endpoint; the status we
+// report is the one of the active endpoint.
+const connectionStates: Map<string, boolean> = new Map();
 let lastConnectedTime: string | null = null;
 let reconnectAttempts = 0;
 
+function isActiveConnected(): boolean {
+  return connectionStates.get(activeWsUrl) ?? false;
+}
+
+/**
+ * How the monitors currently receive events: push subscriptions over the
+ * WebSocket, or getLogs polling over HTTP while the socket is down.
+ */
+export type MonitorMode = "push" | "polling";
+let monitorMode: MonitorMode = "push";
+
+// Notified whenever the socket opens or closes
+const connectionListeners: Array<(connected: boolean) => void> = [];
+
+/**
+ * Register a listener called with `true` when the socket opens and `false`
+ * when it closes.
+ */
+export function onConnectionChange(
+  listener: (connected: boolean) => void
+): void {
+  connectionListeners.push(listener);
+}
+
+function notifyConnectionListeners(connected: boolean): void {
+  for (const listener of connectionListeners) {
+    try {
+      listener(connected);
+    } catch (err) {
+      console.error("[sharedWsClient] Error in connection listener:", err);
+    }
+  }
+}
+
+/**
+ * Record the mode the monitors are running in, reported by getWebSocketStatus.
+ */
+export function setMonitorMode(mode: MonitorMode): void {
+  monitorMode = mode;
+}
+
+/**
+ * Tear down a subscription's current watcher, if any.
+ */
+function stopSubscription(key: string, subscription: Subscription): void {
+  if (!subscription.unsubscribe) return;
+  try {
+    subscription.unsubscribe();
+  } catch (err) {
+    console.error(
+      `[sharedWsClient] Error tearing down subscription "${key}":`,
+      err
+    );
+  }
+  subscription.unsubscribe = null;
+}
+
+/**
+ * Tear down a subscription's watcher and run its setup again.
+ */
+async function startSubscription(
+  key: string,
+  subscription: Subscription
+): Promise<void> {
+  stopSubscription(key, subscription);
+  const generation = ++subscription.generation;
+
+  const unsubscribe = await subscription.setup();
+
+  if (
+    generation !== subscription.generation ||
+    subscriptions.get(key) !== subscription
+  ) {
+    // A newer setup or an unregister happened meanwhile, discard this watcher
+    unsubscribe?.();
+    return;
+  }
+  subscription.unsubscribe = unsubscribe || null;
+}
+
+/**
+ * Register a subscription under a stable key and start it right away.
+ * Registering an existing key replaces (and tears down) the previous watcher,
+ * so calling this repeatedly never piles up duplicate watchers.
+ * The setup is run again on every reconnection.
+ */
+export async function registerSubscription(
+  key: string,
+  setup: SubscriptionSetup
+): Promise<void> {
+  const existing = subscriptions.get(key);
+  if (existing) {
+    stopSubscription(key, existing);
+  }
+
+  const subscription: Subscription = {
+    setup,
+    unsubscribe: null,
+    generation: 0,
+  };
+  subscriptions.set(key, subscription);
+  await startSubscription(key, subscription);
+}
+
 /**
- * Register a subscription function to be called on reconnection
+ * Tear down a subscription and stop restoring it on reconnection.
  */
-export function registerSubscription(subscriptionFn: () => void): void {
-  activeSubscriptions.push(subscriptionFn);
+export function unregisterSubscription(key: string): void {
+  const existing = subscriptions.get(key);
+  if (!existing) return;
+  subscriptions.delete(key);
+  stopSubscription(key, existing);
+}
+
+/**
+ * Tear down and recreate every registered subscription.
+ */
+async function restoreSubscriptions(): Promise<void> {
+  const timestamp = new Date().toISOString();
+  console.log(
+    `[sharedWsClient] ${timestamp} - Restoring ${subscriptions.size} subscriptions...`
+  );
+
+  for (const [key, subscription] of subscriptions) {
+    try {
+      await startSubscription(key, subscription);
+    } catch (err) {
+      console.error(
+        `[sharedWsClient] ${timestamp} - Error restoring subscription "${key}":`,
+        err
+      );
+    }
+  }
+}
+
+/**
+ * Force the transport to drop its socket and reconnect. The subscriptions
+ * are recreated by onOpen once the new socket is open.
+ * Used when the connection looks alive but the stream stopped delivering.
+ */
+export async function forceReconnect(): Promise<void> {
+  const timestamp = new Date().toISOString();
+  console.warn(
+    `[sharedWsClient] ${timestamp} - Forcing WebSocket reconnection...`
+  );
+
+  // Closing the raw socket (not the RPC client) triggers viem's reconnect logic
+  const rpcClient = await getSharedWsClient().transport.getRpcClient();
+  rpcClient.socket.close();
 }
 
 /**
@@ -46,12 +226,19 @@ export function getWebSocketStatus(): {
   lastConnectedTime: string | null;
   reconnectAttempts: number;
   activeSubscriptions: number;
+  monitorMode: MonitorMode;
+  endpoint: string;
 } {
   return {
-    isConnected,
+    isConnected: isActiveConnected(),
     lastConnectedTime,
     reconnectAttempts,
-    activeSubscriptions: activeSubscriptions.length,
+    // Only count subscriptions that currently hold a live watcher
+    activeSubscriptions: Array.from(subscriptions.values()).filter(
+      (subscription) => subscription.unsubscribe !== null
+    ).length,
+    monitorMode,
+    endpoint: activeWsUrl,
   };
 }
 
@@ -67,80 +254,128 @@ setInterval(
         `connected=${status.isConnected}, ` +
         `lastConnected=${status.lastConnectedTime || "never"}, ` +
         `reconnectAttempts=${status.reconnectAttempts}, ` +
-        `activeSubscriptions=${status.activeSubscriptions}`
+        `activeSubscriptions=${status.activeSubscriptions}, ` +
+        `mode=${status.monitorMode}, ` +
+        `endpoint=${describeEndpoint(status.endpoint)}`
     );
   },
   5 * 60 * 1000
 ); // Log WebSocket status every 5 minutes
 
 /**
- * Create a resilient WebSocket client with comprehensive error handling
+ * Create a resilient WebSocket client with comprehensive error handling.
+ * Lifecycle events of inactive endpoints only update their connection state.
  */
-export const sharedWsClient: PublicClient = createPublicClient({
-  chain: abstract,
-  transport: webSocket(WS_RPC_URL, {
-    // Retry forever with exponential backoff
-    maxRetries: Infinity,
-    retryDelay: exponentialBackoffDelay,
+function createWsClient(url: string): WsClient {
+  return createPublicClient({
+    chain: abstract,
+    transport: webSocket(url, {
+      // Retry forever with exponential backoff
+      maxRetries: Infinity,
+      retryDelay: exponentialBackoffDelay,
 
-    // Aggressive keep-alive to detect disconnections early
-    keepAlive: { interval: 15_000 },
+      // Aggressive keep-alive to detect disconnections early
+      keepAlive: { interval: 15_000 },
 
-    reconnect: true,
+      reconnect: true,
 
-    // Comprehensive connection lifecycle management
-    onOpen: () => {
-      const timestamp = new Date().toISOString();
-      isConnected = true;
-      lastConnectedTime = timestamp;
-      console.log(
-        `[sharedWsClient] ${timestamp} - WebSocket connection opened successfully.`
-      );
+      // Comprehensive connection lifecycle management
+      onOpen: () => {
+        connectionStates.set(url, true);
+        if (url !== activeWsUrl) return;
 
-      // Restore all active subscriptions when connection is re-established
-      if (activeSubscriptions.length > 0) {
+        const timestamp = new Date().toISOString();
+        const isReconnection = lastConnectedTime !== null;
+        lastConnectedTime = timestamp;
         console.log(
-          `[sharedWsClient] ${timestamp} - Restoring ${activeSubscriptions.length} active subscriptions...`
+          `[sharedWsClient] ${timestamp} - WebSocket connection to ${url} opened successfully.`
         );
-        activeSubscriptions.forEach((subscription) => {
-          try {
-            subscription();
-          } catch (err) {
+
+        // Recreate all subscriptions when connection is re-established.
+        // On the first connection they were just created, nothing to restore.
+        if (isReconnection && subscriptions.size > 0) {
+          restoreSubscriptions().catch((err) =>
             console.error(
-              `[sharedWsClient] ${timestamp} - Error restoring subscription:`,
+              `[sharedWsClient] ${timestamp} - Error restoring subscriptions:`,
               err
-            );
-          }
-        });
-      }
-    },
+            )
+          );
+        }
 
-    onClose: () => {
-      const timestamp = new Date().toISOString();
-      isConnected = false;
-      console.warn(
-        `[sharedWsClient] ${timestamp} - WebSocket connection closed. Will attempt to reconnect...`
-      );
-    },
+        notifyConnectionListeners(true);
+      },
 
-    onError: (error) => {
-      const timestamp = new Date().toISOString();
-      console.error(
-        `[sharedWsClient] ${timestamp} - WebSocket connection error:`,
-        error
-      );
-      // We don't throw here, just log it and let the built-in reconnection handle it
-    },
-
-    onReconnect: (attemptCount) => {
-      const timestamp = new Date().toISOString();
-      reconnectAttempts = attemptCount;
-      console.log(
-        `[sharedWsClient] ${timestamp} - Attempting to reconnect, attempt #${attemptCount}...`
-      );
-    },
-  }),
-});
+      onClose: () => {
+        connectionStates.set(url, false);
+        if (url !== activeWsUrl) return;
+
+        const timestamp = new Date().toISOString();
+        console.warn(
+          `[sharedWsClient] ${timestamp} - WebSocket connection to ${url} closed. Will attempt to reconnect...`
+        );
+
+        notifyConnectionListeners(false);
+      },
+
+      onError: (error) => {
+        const timestamp = new Date().toISOString();
+        console.error(
+          `[sharedWsClient] ${timestamp} - WebSocket connection error:`,
+          error
+        );
+        // We don't throw here, just log it and let the built-in reconnection handle it
+      },
+
+      onReconnect: (attemptCount) => {
+        if (url !== activeWsUrl) return;
+
+        const timestamp = new Date().toISOString();
+        reconnectAttempts = attemptCount;
+        console.log(
+          `[sharedWsClient] ${timestamp} - Attempting to reconnect, attempt #${attemptCount}...`
+        );
+      },
+    }),
+  });
+}
+
+/**
+ * Returns the client bound to a specific WebSocket endpoint.
+ */
+export function getWsClientFor(url: string): WsClient {
+  let client = wsClients.get(url);
+  if (!client) {
+    client = createWsClient(url);
+    wsClients.set(url, client);
+  }
+  return client;
+}
+
+/**
+ * Returns the client of the active endpoint. Watchers should call this at
+ * setup time rather than keep a client around, so they follow failovers.
+ */
+export function getSharedWsClient(): WsClient {
+  return getWsClientFor(activeWsUrl);
+}
+
+/**
+ * Make another endpoint the active one and move every subscription to it.
+ */
+export async function switchWsEndpoint(url: string): Promise<void> {
+  if (url === activeWsUrl) return;
+
+  const timestamp = new Date().toISOString();
+  console.warn(
+    `[sharedWsClient] ${timestamp} - Switching WebSocket endpoint from ${activeWsUrl} to ${url}...`
+  );
+  activeWsUrl = url;
+  reconnectAttempts = 0;
+
+  // Teardown happens on the old client, setup on the new one
+  await restoreSubscriptions();
+  notifyConnectionListeners(isActiveConnected());
+}
 
 /**
  * Create a specialized wrapper around watchEvent to provide additional error resilience
@@ -191,7 +426,7 @@ export function watchEventWithErrorHandling(options: any): () => void {
   };
 
   // Create the actual subscription with our safe handlers
-  const unsubscribe = sharedWsClient.watchEvent({
+  const unsubscribe = getSharedWsClient().watchEvent({
     ...restOptions,
     onLogs: safeOnLogs,
     onError: safeOnError,
@@ -3,6 +3,38 @@
 
 import "dotenv/config";
 
+function splitList(value: string | undefined): string[] {
+  return (value || "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parses a comma-separated list, falling back to a default list (given the
+ * same way) when the value is empty.
+ */
+function parseList(value: string | undefined, fallback: string): string[] {
+  const items = splitList(value);
+  return items.length > 0 ? items : splitList(fallback);
+}
+
+/**
+ * Parses a JSON value, falling back to a default (and logging why) when it is
+ * malformed, so a bad env value doesn't crash the app at startup.
+ */
+function parseJson<T>(name: string, value: string | undefined, fallback: T): T {
+  if (!value) return fallback;
+  try {
+    return JSON.parse(value) as T;
+  } catch (err) {
+    console.error(
+      `[config] ${name} is not valid JSON, using the default: ${(err as Error).message}`
+    );
+    return fallback;
+  }
+}
+
 export const STAKING_CONTRACT_ADDRESS =
   process.env.STAKING_CONTRACT_ADDRESS ||
   "0x06d7ee1d50828ca96e11890a1601f6fe61f1e584";
@@ -13,10 +45,29 @@ export const RPC_URL = process.env.RPC_URL || "https://api.mainnet.abs.xyz";
 export const WS_RPC_URL =
   process.env.WS_RPC_URL || "wss://api.mainnet.abs.xyz/ws";
 
-export const FALLBACK_START_BLOCK = parseInt(
-  process.env.FALLBACK_START_BLOCK || "2273309",
+// Ranked endpoint lists (most preferred first). When unset, the single
+// RPC_URL / WS_RPC_URL above is used.
+export const RPC_URLS = parseList(process.env.RPC_URLS, RPC_URL);
+export const WS_RPC_URLS = parseList(process.env.WS_RPC_URLS, WS_RPC_URL);
+
+// Endpoint health: an endpoint exceeding any of these limits is considered
+// unhealthy and we fail over to the next one in the list.
+export const ENDPOINT_PROBE_INTERVAL_SECONDS = parseInt(
+  process.env.ENDPOINT_PROBE_INTERVAL_SECONDS || "30",
   10
 );
+export const ENDPOINT_MAX_LATENCY_MS = parseInt(
+  process.env.ENDPOINT_MAX_LATENCY_MS || "3000",
+  10
+);
+export const ENDPOINT_MAX_ERROR_RATE = parseFloat(
+  process.env.ENDPOINT_MAX_ERROR_RATE || "0.25"
+);
+export const ENDPOINT_MAX_HEAD_LAG = parseInt(
+  process.env.ENDPOINT_MAX_HEAD_LAG || "10",
+  10
+);
+
 export const REORG_SAFETY = parseInt(process.env.REORG_SAFETY || "6", 10);
 export const BLOCK_BATCH_SIZE = parseInt(
   process.env.BLOCK_BATCH_SIZE || "5000",
@@ -27,6 +78,52 @@ export const BLOCK_WRITE_FREQUENCY = parseInt(
   10
 );
 
+// Stream watchdog: force a reconnect when the WebSocket block stream falls
+// behind the HTTP head by this many blocks, or goes silent for this long.
+export const WATCHDOG_MAX_LAG_BLOCKS = parseInt(
+  process.env.WATCHDOG_MAX_LAG_BLOCKS || "30",
+  10
+);
+export const WATCHDOG_MAX_LAG_SECONDS = parseInt(
+  process.env.WATCHDOG_MAX_LAG_SECONDS || "120",
+  10
+);
+
+// Polling fallback: how often getLogs is polled over HTTP while the
+// WebSocket is down.
+export const POLLING_INTERVAL_SECONDS = parseInt(
+  process.env.POLLING_INTERVAL_SECONDS || "15",
+  10
+);
+
+// Level sweep: how often every revealed hero's metadata is re-read for level changes,
+// and which level-ups raise an alert: "first" (first hero to reach a level, from
+// LEVEL_UP_FIRST_MIN_LEVEL up), "unique" (a Unique hero levels up) or "all";
+// "none" disables level-up alerts (levels are still swept and recorded).
+export const LEVEL_SWEEP_INTERVAL_MINUTES = parseInt(
+  process.env.LEVEL_SWEEP_INTERVAL_MINUTES || "60",
+  10
+);
+export const LEVEL_UP_ALERTS = parseList(
+  process.env.LEVEL_UP_ALERTS,
+  "first,unique"
+);
+export const LEVEL_UP_FIRST_MIN_LEVEL = parseInt(
+  process.env.LEVEL_UP_FIRST_MIN_LEVEL || "5",
+  10
+);
+
+// Digests: which periodic digests are posted ("daily" and/or "weekly", "none" to disable).
+// Periods are UTC days and UTC weeks starting on Monday; a digest is posted once its period is over.
+export const DIGEST_PERIODS = parseList(
+  process.env.DIGEST_PERIODS,
+  "daily,weekly"
+);
+export const DIGEST_CHECK_INTERVAL_MINUTES = parseInt(
+  process.env.DIGEST_CHECK_INTERVAL_MINUTES || "10",
+  10
+);
+
 // MongoDB config
 export const MONGO_URI =
   process.env.MONGO_URI || "mongodb://localhost:27017/mydb";
@@ -36,6 +133,83 @@ export const TWITTER_USERNAME = process.env.TWITTER_USERNAME || "";
 export const TWITTER_PASSWORD = process.env.TWITTER_PASSWORD || "";
 export const TWITTER_EMAIL = process.env.TWITTER_EMAIL || "";
 
+// Notifiers: which alert channels are enabled (comma-separated)
+export const NOTIFIERS = parseList(process.env.NOTIFIERS, "twitter");
+
+// Send queue: posts allowed per channel (token bucket of `posts` every `minutes`), as a JSON object
+// such as {"twitter":{"posts":15,"minutes":15}}. Channels left out are only limited by their notifier.
+// Once a channel has more than SEND_COALESCE_THRESHOLD reveals (or deaths) queued, they are combined into one post.
+export interface SendRateLimitConfig {
+  posts: number;
+  minutes: number;
+}
+export const SEND_RATE_LIMITS = parseJson<Record<string, SendRateLimitConfig>>(
+  "SEND_RATE_LIMITS",
+  process.env.SEND_RATE_LIMITS,
+  { twitter: { posts: 15, minutes: 15 } }
+);
+export const SEND_COALESCE_THRESHOLD = parseInt(
+  process.env.SEND_COALESCE_THRESHOLD || "5",
+  10
+);
+// Attempts before a post is given up and kept as "failed" in the outbox
+export const OUTBOX_MAX_ATTEMPTS = parseInt(
+  process.env.OUTBOX_MAX_ATTEMPTS || "8",
+  10
+);
+
+// Webhook notifier config. WEBHOOK_ENDPOINTS is a JSON array such as
+// [{"url":"https://bot.example/hook","secret":"...","timeoutMs":5000}];
+// endpoints without their own secret/timeout use the defaults below.
+export interface WebhookEndpointConfig {
+  url: string;
+  secret?: string;
+  timeoutMs?: number;
+}
+export const WEBHOOK_ENDPOINTS = parseJson<WebhookEndpointConfig[]>(
+  "WEBHOOK_ENDPOINTS",
+  process.env.WEBHOOK_ENDPOINTS,
+  []
+);
+export const WEBHOOK_SECRET = process.env.WEBHOOK_SECRET || "";
+export const WEBHOOK_TIMEOUT_MS = parseInt(
+  process.env.WEBHOOK_TIMEOUT_MS || "5000",
+  10
+);
+export const WEBHOOK_MAX_RETRIES = parseInt(
+  process.env.WEBHOOK_MAX_RETRIES || "3",
+  10
+);
+
+// Discord notifier config
+export const DISCORD_WEBHOOK_URL = process.env.DISCORD_WEBHOOK_URL || "";
+export const DISCORD_MAX_RETRIES = parseInt(
+  process.env.DISCORD_MAX_RETRIES || "3",
+  10
+);
+
+// Telegram notifier config
+export const TELEGRAM_BOT_TOKEN = process.env.TELEGRAM_BOT_TOKEN || "";
+export const TELEGRAM_CHAT_IDS = (process.env.TELEGRAM_CHAT_IDS || "")
+  .split(",")
+  .map((chatId) => chatId.trim())
+  .filter(Boolean);
+export const TELEGRAM_MAX_RETRIES = parseInt(
+  process.env.TELEGRAM_MAX_RETRIES || "3",
+  10
+);
+
+// Alert templates: optional JSON file overriding the built-in templates,
+// e.g. {"death": {"twitter": ["...", "..."]}}
+export const ALERT_TEMPLATES_PATH = process.env.ALERT_TEMPLATES_PATH || "";
+
+// Alert rules: optional JSON file deciding which alerts are sent, where and with which template
+export const ALERT_RULES_PATH = process.env.ALERT_RULES_PATH || "";
+
+// Block explorer used for transaction links in alerts
+export const EXPLORER_TX_URL =
+  process.env.EXPLORER_TX_URL || "https://abscan.org/tx/";
+
 export const ENDGAME_CONTRACT_ADDRESS =
   process.env.ENDGAME_CONTRACT_ADDRESS ||
   "0xeea334b302bd8b1b96d4ef73b8f4467a347da6f0";
@@ -0,0 +1,80 @@
+// path: src/db/alert.model.ts
+// Dev note: This is the Mongoose schema/model for the alert ledger. One document per (chain, txHash, logIndex, alertType, channel)
+// records the alerts already posted, so an on-chain event produces at most one alert per channel, however many
+// subscriptions or replays see it. Posts waiting to go out live in the outbox (see outbox.model.ts).
+
+import { Schema, model } from "mongoose";
+import { abstract } from "viem/chains";
+
+export const ALERT_TYPES = [
+  "reveal",
+  "death",
+  // Dedicated alerts for wallets on the watchlist
+  "watch-stake",
+  "watch-death",
+  "level-up",
+] as const;
+export type AlertType = (typeof ALERT_TYPES)[number];
+export type AlertChannel = "twitter" | "webhook" | "discord" | "telegram";
+
+/**
+ * Identifies the on-chain event an alert is about.
+ */
+export interface EventRef {
+  txHash: string;
+  logIndex: number;
+}
+
+export interface AlertKey extends EventRef {
+  alertType: AlertType;
+  channel: AlertChannel;
+}
+
+interface IAlert extends AlertKey {
+  chain: number;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const alertSchema = new Schema<IAlert>(
+  {
+    chain: { type: Number, required: true },
+    txHash: { type: String, required: true },
+    logIndex: { type: Number, required: true },
+    alertType: { type: String, required: true },
+    channel: { type: String, required: true },
+  },
+  { timestamps: true }
+);
+
+alertSchema.index(
+  { chain: 1, txHash: 1, logIndex: 1, alertType: 1, channel: 1 },
+  { unique: true }
+);
+
+export const Alert = model<IAlert>("Alert", alertSchema);
+
+function toFilter(key: AlertKey) {
+  return {
+    chain: abstract.id,
+    txHash: key.txHash.toLowerCase(),
+    logIndex: key.logIndex,
+    alertType: key.alertType,
+    channel: key.channel,
+  };
+}
+
+/**
+ * Returns true if this alert was already posted on its channel.
+ */
+export async function isAlertSent(key: AlertKey): Promise<boolean> {
+  return (await Alert.exists(toFilter(key))) !== null;
+}
+
+/**
+ * Record that an alert was posted on its channel.
+ */
+export async function recordAlertSent(key: AlertKey): Promise<void> {
+  // The entry itself records the alert as sent, the timestamps are all we set
+  await Alert.updateOne(toFilter(key), {}, { upsert: true });
+}
@@ -0,0 +1,104 @@
+// path: src/db/death.model.ts
+// Dev note: This is the Mongoose schema/model for Death events. A hero dies once, so there is one document per
+// tokenId; recording a death also flags the hero as dead on the Hero collection.
+
+import { Schema, model } from "mongoose";
+import { Hero } from "./hero.model";
+
+export interface IDeath {
+  tokenId: number;
+  // Level at death, once the hero's metadata was fetched
+  level?: number;
+  blockNumber: number;
+  txHash: string;
+  logIndex: number;
+  // Timestamp of the block the Death event was mined in
+  diedAt: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const deathSchema = new Schema<IDeath>(
+  {
+    tokenId: { type: Number, required: true, unique: true },
+    level: { type: Number },
+    blockNumber: { type: Number, required: true },
+    txHash: { type: String, required: true, lowercase: true },
+    logIndex: { type: Number, required: true },
+    diedAt: { type: Date, required: true, index: true },
+  },
+  { timestamps: true }
+);
+
+export const Death = model<IDeath>("Death", deathSchema);
+
+/**
+ * Record a hero's death and flag the hero as dead. Replays of the same
+ * death leave the stored record untouched.
+ * @returns The stored death, and whether this call created it.
+ */
+export async function recordDeath(
+  death: Omit<IDeath, "level" | "createdAt" | "updatedAt">
+): Promise<{ death: IDeath; created: boolean }> {
+  const result = await Death.updateOne(
+    { tokenId: death.tokenId },
+    { $setOnInsert: death },
+    { upsert: true }
+  );
+  const created = result.upsertedCount > 0;
+
+  if (created) {
+    await Hero.updateOne(
+      { tokenId: death.tokenId },
+      { isDead: true, diedAt: death.diedAt }
+    );
+  }
+
+  const stored = await Death.findOne({ tokenId: death.tokenId }).lean<IDeath>();
+  return { death: stored as IDeath, created };
+}
+
+/**
+ * Store the level a hero died at.
+ */
+export async function setDeathLevel(
+  tokenId: number,
+  level: number
+): Promise<void> {
+  await Death.updateOne({ tokenId }, { level });
+}
+
+/**
+ * Returns a hero's death, or null if it is alive (as far as we know).
+ */
+export async function getDeath(tokenId: number): Promise<IDeath | null> {
+  return Death.findOne({ tokenId }).lean<IDeath>();
+}
+
+export async function isHeroDead(tokenId: number): Promise<boolean> {
+  return (await Death.exists({ tokenId })) !== null;
+}
+
+/**
+ * Number of heroes that died, optionally only since a date.
+ */
+export async function countDeaths(since?: Date): Promise<number> {
+  return Death.countDocuments(since ? { diedAt: { $gte: since } } : {});
+}
+
+/**
+ * Deaths in a time range, most recent first.
+ */
+export async function listDeaths(
+  options: { since?: Date; until?: Date; limit?: number } = {}
+): Promise<IDeath[]> {
+  const diedAt: Record<string, Date> = {};
+  if (options.since) diedAt.$gte = options.since;
+  if (options.until) diedAt.$lt = options.until;
+
+  const query = Death.find(
+    Object.keys(diedAt).length > 0 ? { diedAt } : {}
+  ).sort({ diedAt: -1 });
+  if (options.limit) query.limit(options.limit);
+  return query.lean<IDeath[]>();
+}
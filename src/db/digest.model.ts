@@ -0,0 +1,117 @@
+// path: src/db/digest.model.ts
+// Dev note: This is the Mongoose schema/model for the digest ledger. One document per (period, periodStart, channel)
+// keeps the rendered digest and the IDs of what was posted, so a restart resumes or skips a digest instead of posting it twice.
+
+import { Schema, model } from "mongoose";
+import { type AlertChannel } from "./alert.model";
+import { type DigestPeriod } from "../notifiers/types";
+
+export interface DigestKey {
+  period: DigestPeriod;
+  periodStart: Date;
+  channel: AlertChannel;
+}
+
+export interface IDigest extends DigestKey {
+  periodEnd: Date;
+  thread: string[];
+  message: string;
+  // Parts delivered so far (e.g. the tweets of an X thread, one message per
+  // Telegram chat), a retry skips them
+  postIds: string[];
+  status: "pending" | "sent";
+  sentAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const digestSchema = new Schema<IDigest>(
+  {
+    period: { type: String, enum: ["daily", "weekly"], required: true },
+    periodStart: { type: Date, required: true },
+    periodEnd: { type: Date, required: true },
+    channel: { type: String, required: true },
+    thread: { type: [String], default: [] },
+    message: { type: String, required: true },
+    postIds: { type: [String], default: [] },
+    status: { type: String, enum: ["pending", "sent"], default: "pending" },
+    sentAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+digestSchema.index({ period: 1, periodStart: 1, channel: 1 }, { unique: true });
+
+export const Digest = model<IDigest>("Digest", digestSchema);
+
+function toFilter(key: DigestKey) {
+  return {
+    period: key.period,
+    periodStart: key.periodStart,
+    channel: key.channel,
+  };
+}
+
+/**
+ * Returns the ledger entry of a digest, creating it with the given content
+ * the first time. An existing entry keeps its content, so a resumed thread
+ * continues with the text it started with.
+ */
+export async function getOrCreateDigest(
+  key: DigestKey,
+  content: Pick<IDigest, "periodEnd" | "thread" | "message">
+): Promise<IDigest> {
+  const digest = await Digest.findOneAndUpdate(
+    toFilter(key),
+    { $setOnInsert: { ...toFilter(key), ...content } },
+    { upsert: true, new: true }
+  ).lean<IDigest>();
+  return digest!;
+}
+
+/**
+ * Returns true if the digest was already fully posted on every given channel.
+ */
+export async function isDigestSent(
+  period: DigestPeriod,
+  periodStart: Date,
+  channels: AlertChannel[]
+): Promise<boolean> {
+  const sent = await Digest.countDocuments({
+    period,
+    periodStart,
+    channel: { $in: channels },
+    status: "sent",
+  });
+  return sent === channels.length;
+}
+
+/**
+ * Record a post of a digest as soon as it is made.
+ */
+export async function recordDigestPost(
+  key: DigestKey,
+  postId: string
+): Promise<void> {
+  await Digest.updateOne(toFilter(key), { $push: { postIds: postId } });
+}
+
+/**
+ * Mark a digest as fully posted.
+ */
+export async function markDigestSent(key: DigestKey): Promise<void> {
+  await Digest.updateOne(toFilter(key), {
+    status: "sent",
+    sentAt: new Date(),
+  });
+}
+
+/**
+ * Most recent digests, all channels included.
+ */
+export async function listDigests(limit = 20): Promise<IDigest[]> {
+  return Digest.find()
+    .sort({ periodStart: -1, period: 1, channel: 1 })
+    .limit(limit)
+    .lean<IDigest[]>();
+}
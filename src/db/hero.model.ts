@@ -1,8 +1,16 @@
 // path: src/db/hero.model.ts
-// Dev note: This is the Mongoose schema/model for Heroes. It keeps track of metadata and whether a hero is revealed.
+// Dev note: This is the Mongoose schema/model for Heroes. It keeps track of metadata, whether a hero is revealed
+// and its trait rarity (computed by the rarity engine).
 
 import { Schema, model } from "mongoose";
 
+export interface RarestTrait {
+  trait_type: string;
+  value: string;
+  // Number of revealed heroes sharing this trait value
+  count: number;
+}
+
 interface IHero {
   tokenId: number;
   name: string;
@@ -10,6 +18,16 @@ interface IHero {
   image?: string;
   attributes?: any[];
   isRevealed: boolean;
+  revealedAt?: Date;
+  // Owner from the hero's latest Staked event
+  lastStaker?: string;
+  isDead: boolean;
+  diedAt?: Date;
+  // Last level seen by the level sweep
+  level?: number;
+  rarityScore?: number;
+  rarityRank?: number;
+  rarestTraits?: RarestTrait[];
 }
 
 const heroSchema = new Schema<IHero>({
@@ -19,6 +37,17 @@ const heroSchema = new Schema<IHero>({
   image: { type: String },
   attributes: { type: Array, default: [] },
   isRevealed: { type: Boolean, default: false },
+  revealedAt: { type: Date },
+  lastStaker: { type: String, lowercase: true },
+  isDead: { type: Boolean, default: false },
+  diedAt: { type: Date },
+  level: { type: Number, index: true },
+  rarityScore: { type: Number, index: true },
+  rarityRank: { type: Number },
+  rarestTraits: {
+    type: [{ _id: false, trait_type: String, value: String, count: Number }],
+    default: undefined,
+  },
 });
 
 export const Hero = model<IHero>("Hero", heroSchema);
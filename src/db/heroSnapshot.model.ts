@@ -0,0 +1,76 @@
+// path: src/db/heroSnapshot.model.ts
+// Dev note: This is the Mongoose schema/model for versioned hero metadata. A snapshot is appended every time a fetch
+// changes a hero's name, image or attributes, so the Hero document can be overwritten without losing its past states.
+
+import { Schema, model } from "mongoose";
+import { type HeroAttribute } from "../notifiers/types";
+
+export interface IHeroSnapshot {
+  tokenId: number;
+  // 1 for the first snapshot of a hero, then incremented by one
+  version: number;
+  name?: string;
+  description?: string;
+  image?: string;
+  attributes: HeroAttribute[];
+  // What fetched the metadata (reveal, level-sweep, init-metadata...)
+  source: string;
+  capturedAt: Date;
+}
+
+const heroSnapshotSchema = new Schema<IHeroSnapshot>({
+  tokenId: { type: Number, required: true },
+  version: { type: Number, required: true },
+  name: { type: String },
+  description: { type: String },
+  image: { type: String },
+  attributes: {
+    type: [{ _id: false, trait_type: String, value: Schema.Types.Mixed }],
+    default: [],
+  },
+  source: { type: String, required: true },
+  capturedAt: { type: Date, required: true },
+});
+
+heroSnapshotSchema.index({ tokenId: 1, version: 1 }, { unique: true });
+
+export const HeroSnapshot = model<IHeroSnapshot>(
+  "HeroSnapshot",
+  heroSnapshotSchema
+);
+
+/**
+ * Latest snapshot of a hero, if it has any.
+ */
+export async function getLatestSnapshot(
+  tokenId: number
+): Promise<IHeroSnapshot | null> {
+  return HeroSnapshot.findOne({ tokenId })
+    .sort({ version: -1 })
+    .lean<IHeroSnapshot>();
+}
+
+/**
+ * All snapshots of a hero, oldest first.
+ */
+export async function listSnapshots(tokenId: number): Promise<IHeroSnapshot[]> {
+  return HeroSnapshot.find({ tokenId })
+    .sort({ version: 1 })
+    .lean<IHeroSnapshot[]>();
+}
+
+/**
+ * Append a snapshot with the given version. Returns false if that version
+ * already exists (another fetch of the same hero got there first).
+ */
+export async function appendSnapshot(
+  snapshot: IHeroSnapshot
+): Promise<boolean> {
+  try {
+    await HeroSnapshot.create(snapshot);
+    return true;
+  } catch (err: any) {
+    if (err?.code === 11000) return false;
+    throw err;
+  }
+}
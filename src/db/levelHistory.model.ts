@@ -0,0 +1,70 @@
+// path: src/db/levelHistory.model.ts
+// Dev note: This is the Mongoose schema/model for hero level history. The level sweep stores one document each
+// time it sees a hero at a new level; the first document of a hero is the level it had when we started tracking it.
+
+import { Schema, model } from "mongoose";
+
+export interface ILevelHistory {
+  tokenId: number;
+  level: number;
+  // null for the first level recorded for a hero
+  previousLevel: number | null;
+  // When the sweep noticed the new level
+  detectedAt: Date;
+}
+
+const levelHistorySchema = new Schema<ILevelHistory>({
+  tokenId: { type: Number, required: true },
+  level: { type: Number, required: true },
+  previousLevel: { type: Number, default: null },
+  detectedAt: { type: Date, required: true },
+});
+
+levelHistorySchema.index({ tokenId: 1, level: 1 }, { unique: true });
+levelHistorySchema.index({ detectedAt: 1 });
+
+export const LevelHistory = model<ILevelHistory>(
+  "LevelHistory",
+  levelHistorySchema
+);
+
+/**
+ * Record a hero reaching a level. Returns false if it was already recorded.
+ */
+export async function recordLevel(entry: ILevelHistory): Promise<boolean> {
+  const result = await LevelHistory.updateOne(
+    { tokenId: entry.tokenId, level: entry.level },
+    { $setOnInsert: entry },
+    { upsert: true }
+  );
+  return result.upsertedCount > 0;
+}
+
+/**
+ * A hero's level history, oldest first.
+ */
+export async function getLevelHistory(
+  tokenId: number
+): Promise<ILevelHistory[]> {
+  return LevelHistory.find({ tokenId })
+    .sort({ level: 1 })
+    .lean<ILevelHistory[]>();
+}
+
+/**
+ * Level-ups detected in a time range (the first level of each hero excluded).
+ */
+export async function listLevelUps(
+  options: { since?: Date; until?: Date } = {}
+): Promise<ILevelHistory[]> {
+  const detectedAt: Record<string, Date> = {};
+  if (options.since) detectedAt.$gte = options.since;
+  if (options.until) detectedAt.$lt = options.until;
+
+  return LevelHistory.find({
+    previousLevel: { $ne: null },
+    ...(Object.keys(detectedAt).length > 0 ? { detectedAt } : {}),
+  })
+    .sort({ detectedAt: -1 })
+    .lean<ILevelHistory[]>();
+}
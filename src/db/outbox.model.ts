@@ -0,0 +1,113 @@
+// path: src/db/outbox.model.ts
+// Dev note: This is the Mongoose schema/model for the outbox: one document per intended post (alert x channel), with
+// the rendered text and the image its media is built from. It persists the send queue, so posts survive restarts
+// and failed posts are retried, then kept as "failed" once they run out of attempts. Sent posts keep the ID the
+// channel gave them: they are the history of what was posted about each hero, and X threads are built from them.
+
+import { Schema, model } from "mongoose";
+import { type AlertKey } from "./alert.model";
+import { type AlertPayload } from "../notifiers/types";
+
+export type OutboxStatus = "pending" | "in-flight" | "sent" | "failed";
+
+export interface IOutboxPost extends AlertKey {
+  chain: number;
+  tokenId: number;
+  // The routed alert, as passed to the notifier
+  alert: AlertPayload;
+  // Text rendered for the channel when the post was queued
+  text: string;
+  // Hero image the post's media is rendered from
+  mediaUrl?: string;
+  // Lower is posted first
+  priority: number;
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  lockedUntil: Date | null;
+  lastError?: string | null;
+  sentAt?: Date;
+  // ID of the post on the channel, when it gives one. Posts combined into one share it
+  postId?: string | null;
+  // Sent as part of a combined post ("7 heroes were revealed"), which isn't the hero's own thread
+  combined?: boolean;
+  // Parts delivered so far (e.g. one message per Telegram chat), a retry skips them
+  postIds: string[];
+  // Post this one replied to, for alerts threaded under the hero's earlier posts
+  replyToPostId?: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const outboxSchema = new Schema<IOutboxPost>(
+  {
+    chain: { type: Number, required: true },
+    txHash: { type: String, required: true },
+    logIndex: { type: Number, required: true },
+    alertType: { type: String, required: true },
+    channel: { type: String, required: true },
+    tokenId: { type: Number, required: true },
+    alert: { type: Schema.Types.Mixed, required: true },
+    text: { type: String, required: true },
+    mediaUrl: { type: String },
+    priority: { type: Number, required: true },
+    status: {
+      type: String,
+      enum: ["pending", "in-flight", "sent", "failed"],
+      default: "pending",
+    },
+    attempts: { type: Number, default: 0 },
+    nextAttemptAt: { type: Date, default: Date.now },
+    lockedUntil: { type: Date, default: null },
+    lastError: { type: String, default: null },
+    sentAt: { type: Date },
+    postId: { type: String, default: null },
+    postIds: { type: [String], default: [] },
+    combined: { type: Boolean, default: false },
+    replyToPostId: { type: String, default: null },
+  },
+  { timestamps: true }
+);
+
+outboxSchema.index(
+  { chain: 1, txHash: 1, logIndex: 1, alertType: 1, channel: 1 },
+  { unique: true }
+);
+outboxSchema.index({ channel: 1, status: 1, priority: 1, createdAt: 1 });
+outboxSchema.index({ tokenId: 1, createdAt: 1 });
+
+export const OutboxPost = model<IOutboxPost>("OutboxPost", outboxSchema);
+
+// Alerts whose posts make up a hero's thread
+const THREAD_ALERT_TYPES = ["reveal", "level-up", "death"];
+
+/**
+ * ID of the latest post of a hero's thread on a channel (its reveal, or the
+ * level-up posted after it), to reply to. Combined posts don't count. Null if
+ * none was recorded.
+ */
+export async function getHeroThreadPostId(
+  channel: string,
+  tokenId: number
+): Promise<string | null> {
+  const latest = await OutboxPost.findOne({
+    channel,
+    tokenId,
+    alertType: { $in: THREAD_ALERT_TYPES },
+    status: "sent",
+    combined: { $ne: true },
+    postId: { $ne: null },
+  })
+    .sort({ sentAt: -1 })
+    .lean<IOutboxPost>();
+  return latest?.postId ?? null;
+}
+
+/**
+ * Every post queued about a hero, on every channel, oldest first.
+ */
+export async function listHeroPosts(tokenId: number): Promise<IOutboxPost[]> {
+  return OutboxPost.find({ tokenId })
+    .sort({ createdAt: 1 })
+    .lean<IOutboxPost[]>();
+}
@@ -0,0 +1,44 @@
+// path: src/db/revealJob.model.ts
+// Dev note: This is the Mongoose schema/model for reveal jobs. It persists the reveal queue so jobs survive restarts.
+
+import { Schema, model } from "mongoose";
+
+export type RevealJobStatus = "pending" | "in-flight" | "done" | "dead";
+
+export interface IRevealJob {
+  tokenId: number;
+  owner: string;
+  // The Staked event that triggered the reveal, used as the alert ledger key
+  txHash: string;
+  logIndex: number;
+  status: RevealJobStatus;
+  retryCount: number;
+  nextAttemptAt: Date;
+  lockedUntil: Date | null;
+  lastError?: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const revealJobSchema = new Schema<IRevealJob>(
+  {
+    tokenId: { type: Number, required: true, unique: true },
+    owner: { type: String, required: true },
+    txHash: { type: String, required: true },
+    logIndex: { type: Number, required: true },
+    status: {
+      type: String,
+      enum: ["pending", "in-flight", "done", "dead"],
+      default: "pending",
+    },
+    retryCount: { type: Number, default: 0 },
+    nextAttemptAt: { type: Date, default: Date.now },
+    lockedUntil: { type: Date, default: null },
+    lastError: { type: String, default: null },
+  },
+  { timestamps: true }
+);
+
+revealJobSchema.index({ status: 1, nextAttemptAt: 1 });
+
+export const RevealJob = model<IRevealJob>("RevealJob", revealJobSchema);
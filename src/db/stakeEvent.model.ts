@@ -0,0 +1,132 @@
+// path: src/db/stakeEvent.model.ts
+// Dev note: This is the Mongoose schema/model for the staking ledger: one document per Staked/Unstaked event.
+// Recording an event also moves the hero's current position (see stakePosition.model.ts). Only Staked events are
+// recorded for now: the staking contract's Unstaked ABI isn't in the repo yet.
+
+import { Schema, model } from "mongoose";
+import { applyStakeEvent } from "./stakePosition.model";
+
+export type StakeAction = "stake" | "unstake";
+
+export interface IStakeEvent {
+  action: StakeAction;
+  tokenId: number;
+  owner: string;
+  // `timestamp` argument of the event
+  timestamp: Date;
+  blockNumber: number;
+  txHash: string;
+  logIndex: number;
+  createdAt?: Date;
+}
+
+const stakeEventSchema = new Schema<IStakeEvent>(
+  {
+    action: { type: String, enum: ["stake", "unstake"], required: true },
+    tokenId: { type: Number, required: true },
+    owner: { type: String, required: true, lowercase: true },
+    timestamp: { type: Date, required: true },
+    blockNumber: { type: Number, required: true },
+    txHash: { type: String, required: true, lowercase: true },
+    logIndex: { type: Number, required: true },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+stakeEventSchema.index({ txHash: 1, logIndex: 1 }, { unique: true });
+stakeEventSchema.index({ tokenId: 1, blockNumber: 1, logIndex: 1 });
+stakeEventSchema.index({ timestamp: 1 });
+
+export const StakeEvent = model<IStakeEvent>("StakeEvent", stakeEventSchema);
+
+/**
+ * Add an event to the ledger and apply it to the hero's position.
+ * Replays of an event already in the ledger are applied again, in case the
+ * position update failed the first time; applyStakeEvent ignores events it
+ * already applied.
+ * @returns false if the event was already recorded.
+ */
+export async function recordStakeEvent(event: IStakeEvent): Promise<boolean> {
+  let isNew = true;
+  try {
+    await StakeEvent.create(event);
+  } catch (err: any) {
+    // Duplicate key: this event is already in the ledger
+    if (err?.code !== 11000) throw err;
+    isNew = false;
+  }
+
+  await applyStakeEvent(event);
+  return isNew;
+}
+
+/**
+ * A hero's staking history, oldest first.
+ */
+export async function getStakeHistory(tokenId: number): Promise<IStakeEvent[]> {
+  return StakeEvent.find({ tokenId })
+    .sort({ blockNumber: 1, logIndex: 1 })
+    .lean<IStakeEvent[]>();
+}
+
+export interface StakedSupplyPoint {
+  periodStart: Date;
+  staked: number;
+  unstaked: number;
+  // Total staked supply at the end of the period
+  totalStaked: number;
+}
+
+/**
+ * Total staked supply over time, per hour or day, from the ledger.
+ * Only covers what the ledger saw, i.e. events since the backfill start block.
+ */
+export async function getStakedSupplyOverTime(
+  options: { since?: Date; until?: Date; unit?: "hour" | "day" } = {}
+): Promise<StakedSupplyPoint[]> {
+  const unit = options.unit || "day";
+  const timestamp: Record<string, Date> = {};
+  if (options.since) timestamp.$gte = options.since;
+  if (options.until) timestamp.$lt = options.until;
+
+  // Supply before the range is the starting point of the running total
+  let totalStaked = 0;
+  if (options.since) {
+    const [before] = await StakeEvent.aggregate<{ net: number }>([
+      { $match: { timestamp: { $lt: options.since } } },
+      {
+        $group: {
+          _id: null,
+          net: { $sum: { $cond: [{ $eq: ["$action", "stake"] }, 1, -1] } },
+        },
+      },
+    ]);
+    totalStaked = before?.net || 0;
+  }
+
+  const periods = await StakeEvent.aggregate<{
+    _id: Date;
+    staked: number;
+    unstaked: number;
+  }>([
+    ...(Object.keys(timestamp).length > 0 ? [{ $match: { timestamp } }] : []),
+    {
+      $group: {
+        _id: { $dateTrunc: { date: "$timestamp", unit } },
+        staked: { $sum: { $cond: [{ $eq: ["$action", "stake"] }, 1, 0] } },
+        unstaked: { $sum: { $cond: [{ $eq: ["$action", "unstake"] }, 1, 0] } },
+      },
+    },
+    { $sort: { _id: 1 } },
+  ]);
+
+  return periods.map((period) => {
+    totalStaked += period.staked - period.unstaked;
+    return {
+      periodStart: period._id,
+      staked: period.staked,
+      unstaked: period.unstaked,
+      totalStaked,
+    };
+  });
+}
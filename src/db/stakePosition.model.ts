@@ -0,0 +1,106 @@
+// path: src/db/stakePosition.model.ts
+// Dev note: This is the Mongoose schema/model for the current staking state of each hero, derived from the
+// staking ledger: which wallet has the hero staked, and since when.
+
+import { Schema, model } from "mongoose";
+import { type IStakeEvent } from "./stakeEvent.model";
+
+export interface IStakePosition {
+  tokenId: number;
+  owner: string;
+  isStaked: boolean;
+  // Timestamp of the Staked event of the current stake, null once unstaked
+  stakedSince: Date | null;
+  // Position of the last applied event, so older events replayed later are ignored
+  lastBlockNumber: number;
+  lastLogIndex: number;
+  updatedAt?: Date;
+}
+
+const stakePositionSchema = new Schema<IStakePosition>(
+  {
+    tokenId: { type: Number, required: true, unique: true },
+    owner: { type: String, required: true, lowercase: true },
+    isStaked: { type: Boolean, required: true },
+    stakedSince: { type: Date, default: null },
+    lastBlockNumber: { type: Number, required: true },
+    lastLogIndex: { type: Number, required: true },
+  },
+  { timestamps: { createdAt: false, updatedAt: true } }
+);
+
+stakePositionSchema.index({ owner: 1, isStaked: 1 });
+
+export const StakePosition = model<IStakePosition>(
+  "StakePosition",
+  stakePositionSchema
+);
+
+/**
+ * Move a hero's position according to a ledger event, unless a more recent
+ * event was already applied.
+ */
+export async function applyStakeEvent(event: IStakeEvent): Promise<void> {
+  const isStaked = event.action === "stake";
+  const update = {
+    owner: event.owner,
+    isStaked,
+    stakedSince: isStaked ? event.timestamp : null,
+    lastBlockNumber: event.blockNumber,
+    lastLogIndex: event.logIndex,
+  };
+
+  try {
+    await StakePosition.updateOne(
+      {
+        tokenId: event.tokenId,
+        $or: [
+          { lastBlockNumber: { $lt: event.blockNumber } },
+          {
+            lastBlockNumber: event.blockNumber,
+            lastLogIndex: { $lt: event.logIndex },
+          },
+        ],
+      },
+      { $set: update },
+      { upsert: true }
+    );
+  } catch (err: any) {
+    // Duplicate key: the position exists and is already more recent
+    if (err?.code === 11000) return;
+    throw err;
+  }
+}
+
+/**
+ * Heroes currently staked by a wallet.
+ */
+export async function getStakedHeroes(
+  owner: string
+): Promise<IStakePosition[]> {
+  return StakePosition.find({ owner: owner.toLowerCase(), isStaked: true })
+    .sort({ stakedSince: 1 })
+    .lean<IStakePosition[]>();
+}
+
+/**
+ * Total number of heroes currently staked.
+ */
+export async function getStakedCount(): Promise<number> {
+  return StakePosition.countDocuments({ isStaked: true });
+}
+
+/**
+ * Number of heroes currently staked per wallet, biggest stakers first.
+ */
+export async function getStakedCountByOwner(
+  limit = 20
+): Promise<{ owner: string; staked: number }[]> {
+  return StakePosition.aggregate([
+    { $match: { isStaked: true } },
+    { $group: { _id: "$owner", staked: { $sum: 1 } } },
+    { $sort: { staked: -1, _id: 1 } },
+    { $limit: limit },
+    { $project: { _id: 0, owner: "$_id", staked: 1 } },
+  ]);
+}
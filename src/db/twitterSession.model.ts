@@ -0,0 +1,96 @@
+// path: src/db/twitterSession.model.ts
+// Dev note: This is the Mongoose schema/model for the X session of the bot account: the Scraper cookies, restored on
+// startup instead of logging in again, and the login attempts, so the re-login backoff survives restarts.
+
+import { Schema, model } from "mongoose";
+
+export interface ITwitterSession {
+  username: string;
+  // Serialized cookies, as returned by cookie.toString()
+  cookies: string[];
+  cookiesSavedAt?: Date | null;
+  lastLoginAt?: Date | null;
+  // Consecutive failed logins, reset on success
+  failedLogins: number;
+  lastLoginError?: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const twitterSessionSchema = new Schema<ITwitterSession>(
+  {
+    username: { type: String, required: true, unique: true, lowercase: true },
+    cookies: { type: [String], default: [] },
+    cookiesSavedAt: { type: Date, default: null },
+    lastLoginAt: { type: Date, default: null },
+    failedLogins: { type: Number, default: 0 },
+    lastLoginError: { type: String, default: null },
+  },
+  { timestamps: true }
+);
+
+export const TwitterSession = model<ITwitterSession>(
+  "TwitterSession",
+  twitterSessionSchema
+);
+
+/**
+ * Returns the stored session of an account, if any.
+ */
+export async function getTwitterSession(
+  username: string
+): Promise<ITwitterSession | null> {
+  return TwitterSession.findOne({
+    username: username.toLowerCase(),
+  }).lean<ITwitterSession>();
+}
+
+/**
+ * Store the current cookies of an account.
+ */
+export async function saveSessionCookies(
+  username: string,
+  cookies: string[]
+): Promise<void> {
+  await TwitterSession.updateOne(
+    { username: username.toLowerCase() },
+    { $set: { cookies, cookiesSavedAt: new Date() } },
+    { upsert: true }
+  );
+}
+
+/**
+ * Forget the cookies of an account, once X rejected them.
+ */
+export async function clearSessionCookies(username: string): Promise<void> {
+  await TwitterSession.updateOne(
+    { username: username.toLowerCase() },
+    { $set: { cookies: [], cookiesSavedAt: null } }
+  );
+}
+
+/**
+ * Record a login attempt: a success resets the failure count, a failure
+ * increments it.
+ */
+export async function recordLoginAttempt(
+  username: string,
+  error?: string
+): Promise<void> {
+  await TwitterSession.updateOne(
+    { username: username.toLowerCase() },
+    error
+      ? {
+          $set: { lastLoginAt: new Date(), lastLoginError: error },
+          $inc: { failedLogins: 1 },
+        }
+      : {
+          $set: {
+            lastLoginAt: new Date(),
+            lastLoginError: null,
+            failedLogins: 0,
+          },
+        },
+    { upsert: true }
+  );
+}
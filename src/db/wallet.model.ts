@@ -0,0 +1,77 @@
+// path: src/db/wallet.model.ts
+// Dev note: This is the Mongoose schema/model for labelled wallets (team, whales, partners...). Labels replace raw
+// addresses in alerts, and watched wallets get dedicated alerts when they stake a hero or lose one to a Death.
+
+import { Schema, model } from "mongoose";
+
+export interface IWallet {
+  address: string;
+  label: string;
+  category?: string;
+  watch: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const walletSchema = new Schema<IWallet>(
+  {
+    address: { type: String, required: true, unique: true, lowercase: true },
+    label: { type: String, required: true },
+    category: { type: String },
+    watch: { type: Boolean, default: false },
+  },
+  { timestamps: true }
+);
+
+export const Wallet = model<IWallet>("Wallet", walletSchema);
+
+/**
+ * Returns the labelled wallet for an address, if any.
+ */
+export async function getWallet(address: string): Promise<IWallet | null> {
+  return Wallet.findOne({ address: address.toLowerCase() }).lean<IWallet>();
+}
+
+/**
+ * Returns the wallet for an address if it is on the watchlist.
+ */
+export async function getWatchedWallet(
+  address: string
+): Promise<IWallet | null> {
+  return Wallet.findOne({
+    address: address.toLowerCase(),
+    watch: true,
+  }).lean<IWallet>();
+}
+
+/**
+ * Create or update a labelled wallet. Fields left undefined are kept.
+ */
+export async function upsertWallet(
+  address: string,
+  fields: Partial<Pick<IWallet, "label" | "category" | "watch">>
+): Promise<IWallet | null> {
+  const update = Object.fromEntries(
+    Object.entries(fields).filter(([, value]) => value !== undefined)
+  );
+  return Wallet.findOneAndUpdate({ address: address.toLowerCase() }, update, {
+    upsert: true,
+    new: true,
+    runValidators: true,
+  }).lean<IWallet>();
+}
+
+/**
+ * Delete a labelled wallet. Returns false if there was none.
+ */
+export async function removeWallet(address: string): Promise<boolean> {
+  const result = await Wallet.deleteOne({ address: address.toLowerCase() });
+  return result.deletedCount > 0;
+}
+
+/**
+ * Returns every labelled wallet, watched ones first.
+ */
+export async function listWallets(): Promise<IWallet[]> {
+  return Wallet.find().sort({ watch: -1, label: 1 }).lean<IWallet[]>();
+}
@@ -0,0 +1,116 @@
+// path: src/digest/digestScheduler.ts
+/**
+ * Posts the daily and weekly digests. Every DIGEST_CHECK_INTERVAL_MINUTES it
+ * looks at the last complete period of each kind in DIGEST_PERIODS and posts
+ * its digest on every enabled channel that hasn't got it yet.
+ *
+ * The digest ledger stores the rendered digest the first time a channel
+ * attempts it, and every post made, on every channel (the X thread's tweets,
+ * the Discord message, each Telegram chat's message, each webhook endpoint):
+ * a restart skips digests already sent and resumes a half-posted one instead
+ * of starting it over, even if it stopped before the digest was marked sent. Only the last
+ * period is considered, so coming back from a long downtime doesn't post a
+ * backlog of old digests.
+ */
+
+import { DIGEST_CHECK_INTERVAL_MINUTES, DIGEST_PERIODS } from "../config";
+import {
+  getOrCreateDigest,
+  isDigestSent,
+  markDigestSent,
+  recordDigestPost,
+  type DigestKey,
+} from "../db/digest.model";
+import { getEnabledNotifiers, type DigestPeriod } from "../notifiers";
+import { collectDigestStats, getLastPeriod } from "./digestStats";
+import { renderDigest } from "./renderDigest";
+
+const KNOWN_PERIODS: DigestPeriod[] = ["daily", "weekly"];
+
+let isPosting = false;
+
+/**
+ * Post the digest of a period on every enabled channel that hasn't got it.
+ * Channels are independent: one failing doesn't stop the others, and it is
+ * retried on the next check.
+ */
+export async function postDigest(
+  period: DigestPeriod,
+  now: Date = new Date()
+): Promise<void> {
+  const { periodStart, periodEnd } = getLastPeriod(period, now);
+  const notifiers = getEnabledNotifiers();
+  const channels = notifiers.map((notifier) => notifier.name);
+  if (await isDigestSent(period, periodStart, channels)) return;
+
+  const stats = await collectDigestStats(period, periodStart, periodEnd);
+  const content = { periodEnd, ...renderDigest(stats) };
+
+  for (const notifier of notifiers) {
+    const key: DigestKey = { period, periodStart, channel: notifier.name };
+    try {
+      const digest = await getOrCreateDigest(key, content);
+      if (digest.status === "sent") continue;
+
+      const postIds = [...digest.postIds];
+      await notifier.sendDigest(
+        {
+          period,
+          periodStart,
+          periodEnd,
+          thread: digest.thread,
+          message: digest.message,
+        },
+        {
+          postIds,
+          recordPost: async (postId) => {
+            postIds.push(postId);
+            await recordDigestPost(key, postId);
+          },
+        }
+      );
+      await markDigestSent(key);
+
+      console.log(
+        `[digestScheduler] ${period} digest for ${periodStart.toISOString()} posted on ${notifier.name}.`
+      );
+    } catch (err) {
+      console.error(
+        `[digestScheduler] Failed to post ${period} digest on ${notifier.name}:`,
+        err
+      );
+    }
+  }
+}
+
+/**
+ * Check for digests to post every DIGEST_CHECK_INTERVAL_MINUTES.
+ * This function should be called once at application startup.
+ */
+export function startDigestScheduler() {
+  const periods = KNOWN_PERIODS.filter((period) =>
+    DIGEST_PERIODS.includes(period)
+  );
+  if (periods.length === 0) {
+    console.log("[digestScheduler] No digest periods enabled.");
+    return;
+  }
+  console.log(`[digestScheduler] Posting ${periods.join(" and ")} digests.`);
+
+  const runCheck = async () => {
+    if (isPosting) return;
+    isPosting = true;
+    try {
+      for (const period of periods) {
+        await postDigest(period);
+      }
+    } catch (err) {
+      console.error("[digestScheduler] Error in digest check:", err);
+    } finally {
+      isPosting = false;
+    }
+  };
+
+  runCheck();
+  setInterval(runCheck, DIGEST_CHECK_INTERVAL_MINUTES * 60 * 1000);
+}
@@ -0,0 +1,133 @@
+// path: src/digest/digestStats.ts
+/**
+ * Aggregates what happened over a digest period from the collections the
+ * monitors fill: reveals (Hero.revealedAt), deaths (Death ledger), level-ups
+ * (level history) and staking activity (staking ledger). Also computes the
+ * period boundaries: UTC days, and UTC weeks starting on Monday.
+ */
+
+import { listDeaths } from "../db/death.model";
+import { Hero } from "../db/hero.model";
+import { listLevelUps } from "../db/levelHistory.model";
+import { getStakedSupplyOverTime } from "../db/stakeEvent.model";
+import { getStakedCount } from "../db/stakePosition.model";
+import { type DigestPeriod } from "../notifiers/types";
+
+const NOTABLE_REVEALS_COUNT = 3; // Rarest reveals listed in a digest
+
+const DAY_MS = 86_400_000;
+
+export interface NotableReveal {
+  tokenId: number;
+  rarityRank: number;
+}
+
+export interface DigestStats {
+  period: DigestPeriod;
+  periodStart: Date;
+  periodEnd: Date;
+  reveals: number;
+  // Rarest heroes revealed in the period, best rank first
+  notableReveals: NotableReveal[];
+  // Number of ranked heroes, what rarity ranks are out of
+  rarityTotal: number;
+  deaths: number;
+  // Deaths per level at death, lowest level first; level is null when unknown
+  deathsByLevel: { level: number | null; count: number }[];
+  levelUps: number;
+  // Highest level reached in the period, if any hero leveled up
+  highestLevel: number | null;
+  staked: number;
+  unstaked: number;
+  // Heroes staked right now
+  totalStaked: number;
+}
+
+/**
+ * The last complete period of a kind before `now`.
+ */
+export function getLastPeriod(
+  period: DigestPeriod,
+  now: Date = new Date()
+): { periodStart: Date; periodEnd: Date } {
+  const today = Math.floor(now.getTime() / DAY_MS) * DAY_MS;
+  if (period === "daily") {
+    return {
+      periodStart: new Date(today - DAY_MS),
+      periodEnd: new Date(today),
+    };
+  }
+
+  // getUTCDay() is 0 on Sunday, weeks start on Monday
+  const daysSinceMonday = (new Date(today).getUTCDay() + 6) % 7;
+  const periodEnd = today - daysSinceMonday * DAY_MS;
+  return {
+    periodStart: new Date(periodEnd - 7 * DAY_MS),
+    periodEnd: new Date(periodEnd),
+  };
+}
+
+/**
+ * Collect the stats of a period from Mongo.
+ */
+export async function collectDigestStats(
+  period: DigestPeriod,
+  periodStart: Date,
+  periodEnd: Date
+): Promise<DigestStats> {
+  const range = { $gte: periodStart, $lt: periodEnd };
+
+  const [
+    reveals,
+    notable,
+    rarityTotal,
+    deaths,
+    levelUps,
+    stakingPoints,
+    totalStaked,
+  ] = await Promise.all([
+    Hero.countDocuments({ revealedAt: range }),
+    Hero.find(
+      { revealedAt: range, rarityRank: { $exists: true } },
+      { tokenId: 1, rarityRank: 1 }
+    )
+      .sort({ rarityRank: 1 })
+      .limit(NOTABLE_REVEALS_COUNT)
+      .lean(),
+    Hero.countDocuments({ rarityRank: { $exists: true } }),
+    listDeaths({ since: periodStart, until: periodEnd }),
+    listLevelUps({ since: periodStart, until: periodEnd }),
+    getStakedSupplyOverTime({ since: periodStart, until: periodEnd }),
+    getStakedCount(),
+  ]);
+
+  const deathCounts = new Map<number | null, number>();
+  for (const death of deaths) {
+    const level = death.level ?? null;
+    deathCounts.set(level, (deathCounts.get(level) || 0) + 1);
+  }
+  const deathsByLevel = Array.from(deathCounts, ([level, count]) => ({
+    level,
+    count,
+  })).sort((a, b) => (a.level ?? Infinity) - (b.level ?? Infinity));
+
+  return {
+    period,
+    periodStart,
+    periodEnd,
+    reveals,
+    notableReveals: notable.map((hero) => ({
+      tokenId: hero.tokenId,
+      rarityRank: hero.rarityRank!,
+    })),
+    rarityTotal,
+    deaths: deaths.length,
+    deathsByLevel,
+    levelUps: levelUps.length,
+    highestLevel:
+      levelUps.length > 0 ? Math.max(...levelUps.map((l) => l.level)) : null,
+    staked: stakingPoints.reduce((sum, point) => sum + point.staked, 0),
+    unstaked: stakingPoints.reduce((sum, point) => sum + point.unstaked, 0),
+    totalStaked,
+  };
+}
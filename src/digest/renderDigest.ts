@@ -0,0 +1,107 @@
+// path: src/digest/renderDigest.ts
+// Dev note: Turn digest stats into text: a thread of posts that each fit in a tweet, and a single message
+// with the same sections for Discord, Telegram and webhooks.
+
+import { type DigestStats } from "./digestStats";
+
+const MAX_POST_LENGTH = 280;
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+function getTitle(stats: DigestStats): string {
+  if (stats.period === "daily") {
+    return `Daily digest for ${formatDate(stats.periodStart)}`;
+  }
+  // periodEnd is exclusive, the week's last day is the day before
+  const lastDay = new Date(stats.periodEnd.getTime() - 1);
+  return `Weekly digest for ${formatDate(stats.periodStart)} - ${formatDate(lastDay)}`;
+}
+
+interface Section {
+  heading: string;
+  lines: string[];
+}
+
+function getSections(stats: DigestStats): Section[] {
+  const summary: string[] = [
+    `Heroes revealed: ${stats.reveals}`,
+    `Heroes fallen: ${stats.deaths}`,
+    `Level-ups: ${stats.levelUps}` +
+      (stats.highestLevel !== null
+        ? ` (highest level reached: ${stats.highestLevel})`
+        : ""),
+    `Staked: +${stats.staked} / -${stats.unstaked} (${stats.totalStaked} staked now)`,
+  ];
+  const sections: Section[] = [{ heading: getTitle(stats), lines: summary }];
+
+  if (stats.deathsByLevel.length > 0) {
+    sections.push({
+      heading: "Fallen heroes by level:",
+      lines: stats.deathsByLevel.map(
+        ({ level, count }) =>
+          `${level === null ? "Unknown level" : `Level ${level}`}: ${count}`
+      ),
+    });
+  }
+
+  if (stats.notableReveals.length > 0) {
+    sections.push({
+      heading: "Rarest reveals:",
+      lines: stats.notableReveals.map(
+        ({ tokenId, rarityRank }) =>
+          `Hero #${tokenId}, rarity rank #${rarityRank} of ${stats.rarityTotal}`
+      ),
+    });
+  }
+
+  return sections;
+}
+
+/**
+ * Split a section into posts of at most MAX_POST_LENGTH characters,
+ * repeating the heading on each post.
+ */
+function toPosts(section: Section): string[] {
+  const posts: string[] = [];
+  let current = section.heading;
+  let hasLines = false;
+
+  for (const line of section.lines) {
+    const separator = hasLines ? "\n" : "\n\n";
+    if (
+      hasLines &&
+      current.length + separator.length + line.length > MAX_POST_LENGTH
+    ) {
+      posts.push(current);
+      current = `${section.heading.replace(/:$/, "")} (cont.):\n\n${line}`;
+      continue;
+    }
+    current += separator + line;
+    hasLines = true;
+  }
+  posts.push(current);
+  return posts;
+}
+
+/**
+ * Render a digest as a thread of posts and as a single message.
+ */
+export function renderDigest(stats: DigestStats): {
+  thread: string[];
+  message: string;
+} {
+  const sections = getSections(stats);
+  return {
+    thread: sections.flatMap(toPosts),
+    message: sections
+      .map((section) => [section.heading, ...section.lines].join("\n"))
+      .join("\n\n"),
+  };
+}
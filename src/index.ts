@@ -6,11 +6,29 @@
 
 import { monitorStakingEvents } from "./monitor/stakingMonitor";
 import { initTwitterClient } from "./twitter/twitter";
+import { getTemplates } from "./templates/templates";
+import { getAlertRules } from "./rules/alertRules";
 import { connectMongoDB } from "./db";
 import { MONGO_URI } from "./config";
 import { startQueueProcessing } from "./monitor/revealQueue";
+import { startRarityEngine } from "./rarity/rarityEngine";
+import { startLevelSweep } from "./monitor/levelSweep";
+import { startDigestScheduler } from "./digest/digestScheduler";
+import { getOutboxCounts, startSendQueue } from "./notifiers/sendQueue";
+import { getEnabledNotifiers } from "./notifiers";
+import { countDeaths } from "./db/death.model";
 import { monitorEndgameEvents } from "./monitor/endgameMonitor";
 import { getWebSocketStatus } from "./clients/wsClient";
+import { getSelectedHttpUrl } from "./clients/httpClient";
+import { describeEndpoint } from "./clients/endpointHealth";
+import { startEndpointMonitor } from "./clients/endpointMonitor";
+import { startBackfill } from "./monitor/backfill";
+import { startPollingFallback } from "./monitor/pollingFallback";
+import { startConfirmationProcessing } from "./monitor/confirmationBuffer";
+import {
+  getStreamWatchdogStatus,
+  startStreamWatchdog,
+} from "./monitor/streamWatchdog";
 
 // Set up global error handlers to prevent app crashes
 process.on("uncaughtException", (error) => {
@@ -82,6 +100,33 @@ async function main() {
     }
   }
 
+  // Load and validate alert templates so a broken templates file shows up at startup
+  try {
+    getTemplates();
+    console.log("[main] Alert templates loaded successfully.");
+  } catch (error) {
+    console.error("[main] Failed to load alert templates:", error);
+    // Continue anyway - alerts will fail until the templates are fixed
+  }
+
+  // Same for the alert rules
+  try {
+    getAlertRules();
+    console.log("[main] Alert rules loaded successfully.");
+  } catch (error) {
+    console.error("[main] Failed to load alert rules:", error);
+    // Continue anyway - alerts will fail until the rules are fixed
+  }
+
+  // Rank revealed heroes so reveal alerts can include their rarity
+  try {
+    await startRarityEngine();
+    console.log("[main] Rarity engine started successfully.");
+  } catch (error) {
+    console.error("[main] Failed to start rarity engine:", error);
+    // Continue anyway - ranks are computed on the next reveal
+  }
+
   // Initialize Twitter client
   try {
     await initTwitterClient();
@@ -92,6 +137,33 @@ async function main() {
     // Continue without Twitter - the app can still monitor events
   }
 
+  // Probe RPC endpoints and fail over when the selected one degrades
+  try {
+    startEndpointMonitor();
+    console.log("[main] Endpoint monitor started successfully.");
+  } catch (error) {
+    console.error("[main] Failed to start endpoint monitor:", error);
+    // Continue anyway - the first endpoint of each list stays selected
+  }
+
+  // Send queued posts, and retry failed ones, from the outbox
+  try {
+    startSendQueue(getEnabledNotifiers());
+    console.log("[main] Send queue started successfully.");
+  } catch (error) {
+    console.error("[main] Failed to start send queue:", error);
+    // Continue anyway - posts stay in the outbox until the next start
+  }
+
+  // Start dispatching logs once they have enough confirmations
+  try {
+    startConfirmationProcessing();
+    console.log("[main] Confirmation processing started successfully.");
+  } catch (error) {
+    console.error("[main] Failed to start confirmation processing:", error);
+    // Continue anyway
+  }
+
   // Start monitoring staking events
   try {
     await monitorStakingEvents();
@@ -119,52 +191,78 @@ async function main() {
     // Continue anyway
   }
 
-  console.log("[main] Application startup complete. Service is now running.");
+  // Catch up on events missed while the service was down
+  try {
+    await startBackfill();
+    console.log("[main] Historical backfill started successfully.");
+  } catch (error) {
+    console.error("[main] Failed to start historical backfill:", error);
+    // Continue anyway - live monitoring still works
+  }
 
-  // Periodically force re-subscribe to events (safety mechanism)
-  setInterval(async () => {
-    const timestamp = new Date().toISOString();
-    console.log(
-      `[main] ${timestamp} - Performing periodic resubscription to events...`
-    );
+  // Switch to HTTP polling whenever the WebSocket is down
+  try {
+    startPollingFallback();
+    console.log("[main] Polling fallback armed successfully.");
+  } catch (error) {
+    console.error("[main] Failed to arm polling fallback:", error);
+    // Continue anyway
+  }
 
-    try {
-      // Re-subscribe to staking events
-      await monitorStakingEvents();
-      console.log(
-        `[main] ${timestamp} - Staking events resubscribed successfully.`
-      );
-    } catch (error) {
-      console.error(
-        `[main] ${timestamp} - Failed to resubscribe to staking events:`,
-        error
-      );
-    }
+  // Watch for a stalled WebSocket stream and force a reconnect when needed
+  try {
+    await startStreamWatchdog();
+    console.log("[main] Stream watchdog started successfully.");
+  } catch (error) {
+    console.error("[main] Failed to start stream watchdog:", error);
+    // Continue anyway
+  }
 
-    try {
-      // Re-subscribe to endgame events
-      await monitorEndgameEvents();
-      console.log(
-        `[main] ${timestamp} - Endgame events resubscribed successfully.`
-      );
-    } catch (error) {
-      console.error(
-        `[main] ${timestamp} - Failed to resubscribe to endgame events:`,
-        error
-      );
-    }
-  }, 3600000); // Re-subscribe every hour
+  // Re-read hero levels periodically and alert on level-ups
+  try {
+    startLevelSweep();
+    console.log("[main] Level sweep started successfully.");
+  } catch (error) {
+    console.error("[main] Failed to start level sweep:", error);
+    // Continue anyway
+  }
+
+  // Post the daily and weekly digests once their period is over
+  try {
+    startDigestScheduler();
+    console.log("[main] Digest scheduler started successfully.");
+  } catch (error) {
+    console.error("[main] Failed to start digest scheduler:", error);
+    // Continue anyway
+  }
+
+  console.log("[main] Application startup complete. Service is now running.");
 
   // Application heartbeat with WebSocket status check
-  setInterval(() => {
+  setInterval(async () => {
     const timestamp = new Date().toISOString();
     const wsStatus = getWebSocketStatus();
+    const watchdogStatus = getStreamWatchdogStatus();
+    const deadHeroes = await countDeaths().catch(() => "unknown");
+    const outbox = await getOutboxCounts().catch(() => ({}));
+    const queuedPosts = Object.entries(outbox)
+      .map(
+        ([channel, counts]) =>
+          `${channel}:${counts.waiting} waiting/${counts.failed} failed`
+      )
+      .join(",");
     console.log(
       `[main] ${timestamp} - Service heartbeat - still running. ` +
         `WebSocket status: connected=${wsStatus.isConnected}, ` +
         `lastConnected=${wsStatus.lastConnectedTime || "never"}, ` +
         `reconnectAttempts=${wsStatus.reconnectAttempts}, ` +
-        `activeSubscriptions=${wsStatus.activeSubscriptions}`
+        `activeSubscriptions=${wsStatus.activeSubscriptions}, ` +
+        `mode=${wsStatus.monitorMode}, ` +
+        `wsEndpoint=${describeEndpoint(wsStatus.endpoint)}, ` +
+        `httpEndpoint=${describeEndpoint(getSelectedHttpUrl())}, ` +
+        `lastStreamBlock=${watchdogStatus.lastWsBlock || "none"}, ` +
+        `deadHeroes=${deadHeroes}, ` +
+        `queuedPosts=${queuedPosts || "none"}`
     );
   }, 1800000); // Log every 30 minutes as a heartbeat
 }
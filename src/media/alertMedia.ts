@@ -0,0 +1,95 @@
+// path: src/media/alertMedia.ts
+// Dev note: Builds the media attached to an alert, shared by every notifier that uploads an image.
+
+import sharp from "sharp";
+import { getImageMimeType } from "../notifiers/format";
+import { type AlertPayload, type BurstPayload } from "../notifiers/types";
+import { getMediaDataFromUrl } from "../twitter/twitter";
+import { renderCollage } from "./collage";
+import { renderDeathMemorial } from "./deathMemorial";
+import { renderRevealCard } from "./revealCard";
+
+const COLLAGE_MAX_IMAGES = 9; // Heroes shown on a combined post's collage
+
+export interface MediaData {
+  data: Buffer;
+  mediaType: string;
+}
+
+/**
+ * Returns the media to attach to an alert, or null if the hero has no image.
+ * Reveals get a rendered card and deaths (watched or not) a memorial, falling
+ * back to the plain hero image (grayscale for deaths) if rendering fails.
+ */
+export async function getAlertMedia(
+  alert: AlertPayload
+): Promise<MediaData | null> {
+  const imageUrl = alert.metadata.image;
+  if (!imageUrl) return null;
+
+  const mimeType = getImageMimeType(imageUrl);
+  const image = await getMediaDataFromUrl(imageUrl, mimeType);
+
+  if (alert.type === "death" || alert.type === "watch-death") {
+    try {
+      return await renderDeathMemorial(alert, image.data);
+    } catch (err) {
+      console.error(
+        `[alertMedia] Failed to render death memorial for hero #${alert.tokenId}, using the plain image:`,
+        err
+      );
+      const still = await sharp(image.data).grayscale().png().toBuffer();
+      return { data: still, mediaType: "image/png" };
+    }
+  }
+
+  // Watched stakes can be of unrevealed heroes, the plain image is enough
+  if (alert.type === "watch-stake" || alert.type === "level-up") return image;
+
+  try {
+    const card = await renderRevealCard(alert, image.data);
+    return { data: card, mediaType: "image/png" };
+  } catch (err) {
+    console.error(
+      `[alertMedia] Failed to render reveal card for hero #${alert.tokenId}, using the plain image:`,
+      err
+    );
+    return image;
+  }
+}
+
+/**
+ * Returns the collage attached to a combined post, or null if none of the
+ * heroes' images could be used.
+ */
+export async function getBurstMedia(
+  burst: BurstPayload
+): Promise<MediaData | null> {
+  const imageUrls = burst.alerts
+    .map((alert) => alert.metadata.image)
+    .filter((url): url is string => !!url)
+    .slice(0, COLLAGE_MAX_IMAGES);
+
+  const downloads = await Promise.allSettled(
+    imageUrls.map((url) => getMediaDataFromUrl(url, getImageMimeType(url)))
+  );
+  const images = downloads
+    .filter(
+      (result): result is PromiseFulfilledResult<MediaData> =>
+        result.status === "fulfilled"
+    )
+    .map((result) => result.value.data);
+
+  try {
+    const collage = await renderCollage(images, {
+      grayscale: burst.type === "death",
+    });
+    return { data: collage, mediaType: "image/png" };
+  } catch (err) {
+    console.error(
+      `[alertMedia] Failed to render collage for ${burst.alerts.length} ${burst.type} alerts:`,
+      err
+    );
+    return null;
+  }
+}
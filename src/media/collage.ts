@@ -0,0 +1,60 @@
+// path: src/media/collage.ts
+/**
+ * Renders the collage attached to combined posts: the images of the heroes
+ * in a burst laid out on a grid, grayscale for deaths. Only the first
+ * MAX_TILES heroes are shown; the post text lists the others.
+ */
+
+import sharp from "sharp";
+
+const MAX_TILES = 9;
+const MAX_COLUMNS = 3;
+const TILE_SIZE = 400;
+const GAP = 8;
+const BACKGROUND = "#0b0814";
+
+/**
+ * Lay out hero images on a grid. Images that fail to decode are skipped.
+ * Throws if none of the images could be used.
+ */
+export async function renderCollage(
+  images: Buffer[],
+  options: { grayscale?: boolean } = {}
+): Promise<Buffer> {
+  const tiles: Buffer[] = [];
+  for (const image of images.slice(0, MAX_TILES)) {
+    try {
+      // Pixel art: nearest neighbour keeps the pixels sharp. Animated images use their first frame.
+      let tile = sharp(image).resize(TILE_SIZE, TILE_SIZE, {
+        kernel: "nearest",
+        fit: "contain",
+        background: BACKGROUND,
+      });
+      if (options.grayscale) tile = tile.grayscale();
+      tiles.push(await tile.png().toBuffer());
+    } catch (err) {
+      console.warn(
+        `[collage] Skipping an image that could not be decoded: ${(err as Error).message}`
+      );
+    }
+  }
+  if (tiles.length === 0) throw new Error("No image to build a collage from.");
+
+  const columns = Math.min(tiles.length, MAX_COLUMNS);
+  const rows = Math.ceil(tiles.length / columns);
+  const width = columns * TILE_SIZE + (columns + 1) * GAP;
+  const height = rows * TILE_SIZE + (rows + 1) * GAP;
+
+  return sharp({
+    create: { width, height, channels: 3, background: BACKGROUND },
+  })
+    .composite(
+      tiles.map((tile, i) => ({
+        input: tile,
+        left: GAP + (i % columns) * (TILE_SIZE + GAP),
+        top: GAP + Math.floor(i / columns) * (TILE_SIZE + GAP),
+      }))
+    )
+    .png()
+    .toBuffer();
+}
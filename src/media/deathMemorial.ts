@@ -0,0 +1,173 @@
+// path: src/media/deathMemorial.ts
+/**
+ * Renders the death memorial: the hero image in grayscale, every frame of it
+ * for animated GIFs, with a memorial band showing the hero's level and
+ * lifespan. The result is re-encoded or resized until it fits X's media
+ * limits for its format.
+ */
+
+import sharp from "sharp";
+import { formatDuration } from "../notifiers/format";
+import { type DeathAlert, type WatchDeathAlert } from "../notifiers/types";
+import { type MediaData } from "./alertMedia";
+
+// X media limits
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024; // PNG/JPEG
+const MAX_GIF_BYTES = 15 * 1024 * 1024;
+const MAX_GIF_WIDTH = 1280;
+const MAX_GIF_HEIGHT = 1080;
+
+const MIN_WIDTH = 512; // Small heroes are upscaled so the band stays legible
+const BAND_RATIO = 0.18; // Height of the memorial band relative to a frame
+const SHRINK_FACTOR = 0.75; // Scale applied on each attempt to fit the byte limit
+const MAX_SHRINK_ATTEMPTS = 4;
+const FONT_FAMILY = "DejaVu Sans, Helvetica, Arial, sans-serif";
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+/**
+ * The memorial band, drawn at the bottom of a single frame.
+ */
+function buildOverlaySvg(
+  alert: DeathAlert | WatchDeathAlert,
+  width: number,
+  height: number
+): string {
+  const bandHeight = Math.round(height * BAND_RATIO);
+  const details = [
+    alert.level !== undefined ? `Level ${alert.level}` : null,
+    alert.revealedAt && alert.diedAt
+      ? `Lived ${formatDuration(alert.diedAt.getTime() - alert.revealedAt.getTime())}`
+      : null,
+  ].filter(Boolean);
+  const titleSize = Math.round(bandHeight * 0.36);
+  const detailSize = Math.round(bandHeight * 0.24);
+  const centerX = Math.round(width / 2);
+
+  return `<svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">
+  <rect x="0" y="${height - bandHeight}" width="${width}" height="${bandHeight}" fill="#000000" fill-opacity="0.7"/>
+  <text x="${centerX}" y="${height - bandHeight + titleSize * 1.25}" text-anchor="middle" font-family="${FONT_FAMILY}" font-size="${titleSize}" font-weight="bold" fill="#ffffff">${escapeXml(`R.I.P. Hero #${alert.tokenId}`)}</text>
+  <text x="${centerX}" y="${height - bandHeight + titleSize * 1.25 + detailSize * 1.5}" text-anchor="middle" font-family="${FONT_FAMILY}" font-size="${detailSize}" fill="#cccccc">${escapeXml(details.join(" · "))}</text>
+</svg>`;
+}
+
+/**
+ * Grayscale the image, upscale it when small and draw the memorial band on
+ * every frame. Returns the frames stacked vertically as raw sharp output.
+ */
+async function renderFrames(
+  alert: DeathAlert | WatchDeathAlert,
+  image: Buffer
+) {
+  const source = sharp(image, { animated: true });
+  const { width = 0, pageHeight, height = 0 } = await source.metadata();
+  const frameHeight = pageHeight || height;
+
+  // Heroes are pixel art, keep the edges sharp when upscaling
+  const scale = width < MIN_WIDTH ? Math.ceil(MIN_WIDTH / width) : 1;
+  const frameWidth = width * scale;
+  const scaledFrameHeight = frameHeight * scale;
+
+  const overlay = Buffer.from(
+    buildOverlaySvg(alert, frameWidth, scaledFrameHeight)
+  );
+
+  // Resize on its own first: composite sees the whole frame stack
+  const resized = await source
+    .resize({ width: frameWidth, kernel: "nearest" })
+    .grayscale()
+    // Lossless intermediate: re-encoding as GIF here would quantize twice
+    .webp({ lossless: true })
+    .toBuffer();
+
+  // Tiling the single-frame overlay repeats it on every frame of the stack
+  return sharp(resized, { animated: true }).composite([
+    { input: overlay, tile: true, top: 0, left: 0 },
+  ]);
+}
+
+/**
+ * Encode a GIF that fits X's dimension and size limits, shrinking it until it
+ * does. Returns null if it still doesn't fit after MAX_SHRINK_ATTEMPTS.
+ */
+async function encodeGif(frames: Buffer): Promise<Buffer | null> {
+  const {
+    width = 0,
+    pageHeight,
+    height = 0,
+  } = await sharp(frames, {
+    animated: true,
+  }).metadata();
+  const frameHeight = pageHeight || height;
+
+  let scale = Math.min(1, MAX_GIF_WIDTH / width, MAX_GIF_HEIGHT / frameHeight);
+  for (let attempt = 0; attempt <= MAX_SHRINK_ATTEMPTS; attempt++) {
+    const gif = await sharp(frames, { animated: true })
+      .resize({ width: Math.floor(width * scale), kernel: "nearest" })
+      .gif({ effort: 7 })
+      .toBuffer();
+    if (gif.length <= MAX_GIF_BYTES) return gif;
+
+    console.warn(
+      `[deathMemorial] GIF is ${gif.length} bytes at ${Math.floor(width * scale)}px wide, shrinking.`
+    );
+    scale *= SHRINK_FACTOR;
+  }
+  return null;
+}
+
+/**
+ * Encode a still image that fits X's size limit: PNG when possible, then
+ * JPEG at decreasing sizes.
+ */
+async function encodeStill(frame: Buffer): Promise<MediaData> {
+  const png = await sharp(frame).png({ compressionLevel: 9 }).toBuffer();
+  if (png.length <= MAX_IMAGE_BYTES) {
+    return { data: png, mediaType: "image/png" };
+  }
+
+  const { width = 0 } = await sharp(frame).metadata();
+  let scale = 1;
+  let jpeg = png;
+  for (let attempt = 0; attempt <= MAX_SHRINK_ATTEMPTS; attempt++) {
+    jpeg = await sharp(frame)
+      .resize({ width: Math.floor(width * scale) })
+      .jpeg({ quality: 85 })
+      .toBuffer();
+    if (jpeg.length <= MAX_IMAGE_BYTES) break;
+    scale *= SHRINK_FACTOR;
+  }
+  return { data: jpeg, mediaType: "image/jpeg" };
+}
+
+/**
+ * Render the death memorial for an alert, given the downloaded hero image.
+ * Animated GIFs stay animated unless they can't be made to fit X's limits,
+ * in which case the first frame is posted as a still image.
+ */
+export async function renderDeathMemorial(
+  alert: DeathAlert | WatchDeathAlert,
+  image: Buffer
+): Promise<MediaData> {
+  const { pages = 1 } = await sharp(image, { animated: true }).metadata();
+  const frames = await renderFrames(alert, image);
+
+  if (pages > 1) {
+    // Keep a lossless frame stack so every encoding attempt starts from full quality
+    const gifFrames = await frames.webp({ lossless: true }).toBuffer();
+    const gif = await encodeGif(gifFrames);
+    if (gif) return { data: gif, mediaType: "image/gif" };
+
+    console.warn(
+      `[deathMemorial] Hero #${alert.tokenId} GIF doesn't fit X's limits, posting a still frame.`
+    );
+    return encodeStill(await sharp(gifFrames).png().toBuffer());
+  }
+
+  return encodeStill(await frames.png().toBuffer());
+}
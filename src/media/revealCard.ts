@@ -0,0 +1,152 @@
+// path: src/media/revealCard.ts
+/**
+ * Renders the reveal card: the hero image composited onto a branded frame with
+ * its name, token ID, key traits, rarity rank and owner. The card is sized for
+ * link previews on X and Discord (1200x675, 16:9).
+ */
+
+import sharp from "sharp";
+import { getOwnerName, getTraits } from "../notifiers/format";
+import { type RevealAlert } from "../notifiers/types";
+
+const CARD_WIDTH = 1200;
+const CARD_HEIGHT = 675;
+const PADDING = 48;
+const HERO_SIZE = CARD_HEIGHT - PADDING * 2; // Square hero image on the left
+const TEXT_X = PADDING * 2 + HERO_SIZE;
+const MAX_TRAITS = 6; // Traits listed on the card
+const MAX_TEXT_LENGTH = 28; // Longer names and trait values are cut
+
+const BACKGROUND_TOP = "#1b1430";
+const BACKGROUND_BOTTOM = "#0b0814";
+const ACCENT_COLOR = "#f5b342";
+const TEXT_COLOR = "#ffffff";
+const MUTED_COLOR = "#a49bbf";
+const FONT_FAMILY = "DejaVu Sans, Helvetica, Arial, sans-serif";
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function truncate(text: string, maxLength = MAX_TEXT_LENGTH): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+function svgText(
+  text: string,
+  x: number,
+  y: number,
+  size: number,
+  color: string,
+  weight: "normal" | "bold" = "normal"
+): string {
+  return (
+    `<text x="${x}" y="${y}" font-family="${FONT_FAMILY}" font-size="${size}" ` +
+    `font-weight="${weight}" fill="${color}">${escapeXml(text)}</text>`
+  );
+}
+
+/**
+ * The frame drawn behind the hero image: background gradient, border and the
+ * slot the hero image is placed in.
+ */
+function buildFrameSvg(): string {
+  return `<svg width="${CARD_WIDTH}" height="${CARD_HEIGHT}" xmlns="http://www.w3.org/2000/svg">
+  <defs>
+    <linearGradient id="bg" x1="0" y1="0" x2="0" y2="1">
+      <stop offset="0%" stop-color="${BACKGROUND_TOP}"/>
+      <stop offset="100%" stop-color="${BACKGROUND_BOTTOM}"/>
+    </linearGradient>
+  </defs>
+  <rect width="${CARD_WIDTH}" height="${CARD_HEIGHT}" fill="url(#bg)"/>
+  <rect x="8" y="8" width="${CARD_WIDTH - 16}" height="${CARD_HEIGHT - 16}" rx="24" fill="none" stroke="${ACCENT_COLOR}" stroke-width="4"/>
+  <rect x="${PADDING - 6}" y="${PADDING - 6}" width="${HERO_SIZE + 12}" height="${HERO_SIZE + 12}" rx="16" fill="${ACCENT_COLOR}"/>
+</svg>`;
+}
+
+/**
+ * The text panel on the right of the hero image.
+ */
+function buildTextSvg(alert: RevealAlert): string {
+  const { metadata } = alert;
+  const name = metadata.name || `Hero #${alert.tokenId}`;
+  const lines: string[] = [];
+  let y = PADDING + 40;
+
+  lines.push(svgText("HERO REVEALED", TEXT_X, y, 22, ACCENT_COLOR, "bold"));
+  y += 64;
+  lines.push(svgText(truncate(name, 22), TEXT_X, y, 48, TEXT_COLOR, "bold"));
+  y += 44;
+  lines.push(svgText(`Token #${alert.tokenId}`, TEXT_X, y, 26, MUTED_COLOR));
+
+  if (alert.rarityRank !== undefined) {
+    y += 40;
+    lines.push(
+      svgText(
+        alert.rarityTotal
+          ? `Rarity rank #${alert.rarityRank} of ${alert.rarityTotal.toLocaleString("en-US")}`
+          : `Rarity rank #${alert.rarityRank}`,
+        TEXT_X,
+        y,
+        26,
+        ACCENT_COLOR,
+        "bold"
+      )
+    );
+  }
+
+  y += 30;
+  for (const trait of getTraits(metadata).slice(0, MAX_TRAITS)) {
+    y += 38;
+    lines.push(
+      svgText(`${trait.trait_type}:`, TEXT_X, y, 22, MUTED_COLOR) +
+        svgText(
+          truncate(String(trait.value), 24),
+          TEXT_X + 190,
+          y,
+          22,
+          TEXT_COLOR
+        )
+    );
+  }
+
+  lines.push(
+    svgText(
+      `Owner ${getOwnerName(alert.owner, alert.ownerLabel)}`,
+      TEXT_X,
+      CARD_HEIGHT - PADDING - 8,
+      24,
+      MUTED_COLOR
+    )
+  );
+
+  return `<svg width="${CARD_WIDTH}" height="${CARD_HEIGHT}" xmlns="http://www.w3.org/2000/svg">${lines.join("")}</svg>`;
+}
+
+/**
+ * Render the reveal card for an alert, given the downloaded hero image.
+ * Animated images are rendered from their first frame.
+ * @returns The card as a PNG.
+ */
+export async function renderRevealCard(
+  alert: RevealAlert,
+  heroImage: Buffer
+): Promise<Buffer> {
+  // Heroes are pixel art, keep the edges sharp when upscaling
+  const hero = await sharp(heroImage)
+    .resize(HERO_SIZE, HERO_SIZE, { fit: "cover", kernel: "nearest" })
+    .png()
+    .toBuffer();
+
+  return sharp(Buffer.from(buildFrameSvg()))
+    .composite([
+      { input: hero, left: PADDING, top: PADDING },
+      { input: Buffer.from(buildTextSvg(alert)), left: 0, top: 0 },
+    ])
+    .png()
+    .toBuffer();
+}
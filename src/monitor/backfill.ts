@@ -0,0 +1,180 @@
+// path: src/monitor/backfill.ts
+/**
+ * Catches up on Staked and Death events emitted while the service was down
+ * or while the WebSocket was reconnecting. Pages getLogs over the HTTP RPC
+ * from the stored block checkpoint up to the chain head and feeds the logs
+ * through the same confirmation buffer and handlers as the live monitors.
+ *
+ * The checkpoint never goes past `head - REORG_SAFETY`, so the most recent
+ * blocks are re-read on the next pass; the buffer skips logs it already
+ * dispatched. It is only advanced once the logs read up to it have been
+ * dispatched, so logs still in the (in-memory) buffer are read again after a
+ * restart.
+ *
+ * On the very first run there is no checkpoint: it is set at the current
+ * head instead of replaying (and alerting on) every past event.
+ */
+
+import { type Log } from "viem";
+import { sharedHttpClient } from "../clients/httpClient";
+import { registerSubscription } from "../clients/wsClient";
+import {
+  BLOCK_BATCH_SIZE,
+  BLOCK_WRITE_FREQUENCY,
+  ENDGAME_CONTRACT_ADDRESS,
+  REORG_SAFETY,
+  STAKING_CONTRACT_ADDRESS,
+} from "../config";
+import {
+  getLastProcessedBlock,
+  setLastProcessedBlock,
+} from "../db/block.model";
+import { STAKING_EVENT_ABI, processStakingLogs } from "./stakingMonitor";
+import { DEATH_EVENT_ABI, processDeathLogs } from "./endgameMonitor";
+import { bufferLogs, bufferLogsUntilDispatched } from "./confirmationBuffer";
+
+let isBackfilling = false;
+let rerunRequested = false;
+
+/**
+ * Page through every block between the checkpoint and the current head,
+ * advancing the checkpoint (up to the reorg-safe head) every
+ * BLOCK_WRITE_FREQUENCY batches.
+ */
+async function backfillToHead() {
+  const checkpoint = await getLastProcessedBlock();
+  const head = Number(await sharedHttpClient.getBlockNumber());
+  const safeHead = head - REORG_SAFETY;
+
+  if (checkpoint === null) {
+    await setLastProcessedBlock(safeHead);
+    console.log(
+      `[backfill] No checkpoint yet, starting from block ${safeHead} without replaying past events.`
+    );
+    return;
+  }
+
+  let fromBlock = checkpoint + 1;
+  if (fromBlock > head) {
+    console.log(
+      `[backfill] Already up to date (checkpoint=${checkpoint}, head=${head}).`
+    );
+    return;
+  }
+
+  console.log(
+    `[backfill] Catching up from block ${fromBlock} to ${head} in batches of ${BLOCK_BATCH_SIZE}...`
+  );
+
+  // Logs up to the reorg-safe head are dispatched within a few seconds; the
+  // checkpoint waits for them. The more recent ones are re-read next pass.
+  const dispatched: Promise<void>[] = [];
+  let dispatchError: Error | null = null;
+  const buffer = (logs: Log[], dispatch: (logs: Log[]) => Promise<void>) => {
+    const confirmed = logs.filter(
+      (log) => log.blockNumber !== null && log.blockNumber <= BigInt(safeHead)
+    );
+    bufferLogs(
+      logs.filter((log) => !confirmed.includes(log)),
+      dispatch
+    );
+    dispatched.push(
+      bufferLogsUntilDispatched(confirmed, dispatch).catch((err) => {
+        dispatchError ??= err;
+      })
+    );
+  };
+  const advanceCheckpoint = async (blockNumber: number) => {
+    await Promise.all(dispatched);
+    if (dispatchError) {
+      throw new Error(
+        `Not advancing the checkpoint to block ${blockNumber}, a log failed to dispatch: ${dispatchError.message}`
+      );
+    }
+    await setLastProcessedBlock(blockNumber);
+  };
+
+  let batchCount = 0;
+  while (fromBlock <= head) {
+    const toBlock = Math.min(fromBlock + BLOCK_BATCH_SIZE - 1, head);
+
+    const [stakingLogs, deathLogs] = await Promise.all([
+      sharedHttpClient.getLogs({
+        address: STAKING_CONTRACT_ADDRESS as `0x${string}`,
+        event: STAKING_EVENT_ABI,
+        fromBlock: BigInt(fromBlock),
+        toBlock: BigInt(toBlock),
+      }),
+      sharedHttpClient.getLogs({
+        address: ENDGAME_CONTRACT_ADDRESS as `0x${string}`,
+        event: DEATH_EVENT_ABI,
+        fromBlock: BigInt(fromBlock),
+        toBlock: BigInt(toBlock),
+      }),
+    ]);
+
+    if (stakingLogs.length > 0 || deathLogs.length > 0) {
+      console.log(
+        `[backfill] Blocks ${fromBlock}-${toBlock}: ${stakingLogs.length} Staked, ${deathLogs.length} Death logs.`
+      );
+    }
+
+    buffer(stakingLogs, processStakingLogs);
+    buffer(deathLogs, processDeathLogs);
+
+    batchCount++;
+    if (batchCount % BLOCK_WRITE_FREQUENCY === 0 && toBlock <= safeHead) {
+      await advanceCheckpoint(toBlock);
+      console.log(`[backfill] Checkpoint advanced to block ${toBlock}.`);
+    }
+
+    fromBlock = toBlock + 1;
+  }
+
+  if (safeHead > checkpoint) {
+    await advanceCheckpoint(safeHead);
+  }
+  console.log(
+    `[backfill] Caught up to block ${head} (checkpoint=${Math.max(safeHead, checkpoint)}).`
+  );
+}
+
+/**
+ * Run a backfill pass. If one is already in progress, another pass is
+ * scheduled right after it so that blocks produced meanwhile are covered.
+ */
+export async function runBackfill(): Promise<void> {
+  if (isBackfilling) {
+    rerunRequested = true;
+    console.log(
+      "[backfill] Backfill already running; another pass will follow it."
+    );
+    return;
+  }
+
+  isBackfilling = true;
+  try {
+    do {
+      rerunRequested = false;
+      await backfillToHead();
+    } while (rerunRequested);
+  } finally {
+    isBackfilling = false;
+  }
+}
+
+/**
+ * Start the initial catch-up and register a new pass for every reconnection.
+ * The passes run in the background so they don't delay startup.
+ */
+export async function startBackfill() {
+  console.log("[backfill] Starting historical backfill...");
+
+  // No watcher here: the setup just kicks off a pass, so it isn't counted
+  // as an active subscription.
+  await registerSubscription("backfill", () => {
+    runBackfill().catch((err) =>
+      console.error("[backfill] Backfill pass error:", err)
+    );
+  });
+}
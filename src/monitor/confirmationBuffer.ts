@@ -0,0 +1,224 @@
+// path: src/monitor/confirmationBuffer.ts
+/**
+ * Holds decoded logs until they are REORG_SAFETY blocks deep before handing
+ * them to the alert handlers. Logs flagged `removed` by viem, or whose block
+ * hash no longer matches the canonical chain, are dropped instead of being
+ * alerted on.
+ *
+ * The buffer lives in memory only. The backfill uses
+ * bufferLogsUntilDispatched to know when the logs it read have been handled,
+ * and never moves the block checkpoint past logs that haven't been.
+ */
+
+import { type Log } from "viem";
+import { sharedHttpClient } from "../clients/httpClient";
+import { REORG_SAFETY } from "../config";
+import { type EventRef } from "../db/alert.model";
+
+const CHECK_INTERVAL_MS = 3_000; // How often we look for newly confirmed logs
+const MAX_DISPATCHED_KEYS = 10_000; // How many dispatched keys we remember
+
+type LogDispatcher = (logs: Log[]) => Promise<void>;
+
+// Notified once a log was dispatched, or dropped
+interface LogWaiter {
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+interface PendingLog {
+  log: Log;
+  blockNumber: bigint;
+  blockHash: `0x${string}`;
+  dispatch: LogDispatcher;
+  waiters: LogWaiter[];
+}
+
+const pendingLogs: Map<string, PendingLog> = new Map();
+
+// Remember recently dispatched logs so that the backfill and the live
+// subscription seeing the same log doesn't dispatch it twice.
+const dispatchedKeys: Set<string> = new Set();
+
+let isProcessing = false;
+
+function getLogKey(log: Log): string {
+  return `${log.transactionHash}:${log.logIndex}`;
+}
+
+/**
+ * Returns the reference used by the alert ledger for a mined log.
+ */
+export function getEventRef(log: Log): EventRef {
+  return {
+    txHash: log.transactionHash as string,
+    logIndex: log.logIndex as number,
+  };
+}
+
+function rememberDispatched(key: string) {
+  dispatchedKeys.add(key);
+  if (dispatchedKeys.size > MAX_DISPATCHED_KEYS) {
+    // Sets iterate in insertion order, so this evicts the oldest key
+    const oldest = dispatchedKeys.values().next().value;
+    if (oldest !== undefined) dispatchedKeys.delete(oldest);
+  }
+}
+
+function addLog(log: Log, dispatch: LogDispatcher, waiter?: LogWaiter): void {
+  const key = getLogKey(log);
+  const previous = pendingLogs.get(key);
+
+  if (log.removed) {
+    if (previous) {
+      pendingLogs.delete(key);
+      previous.waiters.forEach((w) => w.resolve());
+      console.warn(
+        `[confirmationBuffer] Log ${key} was removed by a reorg. Dropped.`
+      );
+    }
+    waiter?.resolve();
+    return;
+  }
+
+  if (
+    log.blockNumber === null ||
+    log.blockHash === null ||
+    dispatchedKeys.has(key)
+  ) {
+    // Pending logs have no block yet, we'll see them again once mined.
+    // Dispatched ones are done.
+    waiter?.resolve();
+    return;
+  }
+
+  // Overwrite any previous entry: if the log was re-mined in another
+  // block, the latest block hash is the one we must verify.
+  pendingLogs.set(key, {
+    log,
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    dispatch,
+    waiters: [...(previous?.waiters ?? []), ...(waiter ? [waiter] : [])],
+  });
+}
+
+/**
+ * Add logs to the buffer. They will be passed to `dispatch` once confirmed.
+ */
+export function bufferLogs(logs: Log[], dispatch: LogDispatcher): void {
+  for (const log of logs) addLog(log, dispatch);
+}
+
+/**
+ * Same as bufferLogs, but resolves once every log was dispatched (or dropped
+ * as reorged), and rejects if a dispatch failed.
+ */
+export async function bufferLogsUntilDispatched(
+  logs: Log[],
+  dispatch: LogDispatcher
+): Promise<void> {
+  await Promise.all(
+    logs.map(
+      (log) =>
+        new Promise<void>((resolve, reject) =>
+          addLog(log, dispatch, { resolve, reject })
+        )
+    )
+  );
+}
+
+/**
+ * Dispatch every pending log that has enough confirmations and still
+ * belongs to the canonical chain.
+ */
+async function processConfirmedLogs() {
+  if (pendingLogs.size === 0) {
+    return;
+  }
+
+  const head = await sharedHttpClient.getBlockNumber();
+
+  const confirmed = Array.from(pendingLogs.entries())
+    .filter(([, pending]) => head - pending.blockNumber >= REORG_SAFETY)
+    .sort(
+      ([, a], [, b]) =>
+        Number(a.blockNumber - b.blockNumber) ||
+        (a.log.logIndex ?? 0) - (b.log.logIndex ?? 0)
+    );
+
+  if (confirmed.length === 0) {
+    return;
+  }
+
+  // Fetch each canonical block hash only once
+  const canonicalHashes: Map<bigint, `0x${string}` | null> = new Map();
+
+  for (const [key, pending] of confirmed) {
+    if (!canonicalHashes.has(pending.blockNumber)) {
+      const block = await sharedHttpClient.getBlock({
+        blockNumber: pending.blockNumber,
+      });
+      canonicalHashes.set(pending.blockNumber, block.hash);
+    }
+
+    // The entry may have been removed by a reorg notification meanwhile
+    if (pendingLogs.get(key) !== pending) {
+      continue;
+    }
+    pendingLogs.delete(key);
+
+    if (canonicalHashes.get(pending.blockNumber) !== pending.blockHash) {
+      console.warn(
+        `[confirmationBuffer] Block hash of log ${key} changed at block ${pending.blockNumber}. Dropped.`
+      );
+      pending.waiters.forEach((w) => w.resolve());
+      continue;
+    }
+
+    rememberDispatched(key);
+    try {
+      await pending.dispatch([pending.log]);
+      pending.waiters.forEach((w) => w.resolve());
+    } catch (error) {
+      console.error(
+        `[confirmationBuffer] Error dispatching log ${key}:`,
+        error
+      );
+      // Let a later backfill pass pick the log up again
+      dispatchedKeys.delete(key);
+      pending.waiters.forEach((w) => w.reject(error as Error));
+    }
+  }
+}
+
+/**
+ * Returns the number of logs still waiting for confirmations.
+ */
+export function getPendingLogCount(): number {
+  return pendingLogs.size;
+}
+
+/**
+ * Start a setInterval loop that dispatches confirmed logs.
+ * This function should be called once at application startup.
+ */
+export function startConfirmationProcessing() {
+  console.log(
+    `[confirmationBuffer] Dispatching logs after ${REORG_SAFETY} confirmations...`
+  );
+
+  setInterval(async () => {
+    if (isProcessing) {
+      return;
+    }
+    isProcessing = true;
+    try {
+      await processConfirmedLogs();
+    } catch (err) {
+      console.error("[confirmationBuffer] Error in setInterval cycle:", err);
+    } finally {
+      isProcessing = false;
+    }
+  }, CHECK_INTERVAL_MS);
+}
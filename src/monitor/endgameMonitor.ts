@@ -4,82 +4,185 @@
  * with enhanced error handling and reconnection capabilities.
  */
 
-import { parseAbiItem, type Log } from "viem";
+import { decodeEventLog, parseAbiItem, type Log } from "viem";
 import { ENDGAME_CONTRACT_ADDRESS } from "../config";
 import axios from "axios";
-import { tweetDeath } from "../twitter/twitter";
+import { dispatchAlert, type HeroMetadata } from "../notifiers";
 import {
   watchEventWithErrorHandling,
   registerSubscription,
 } from "../clients/wsClient";
+import { sharedHttpClient } from "../clients/httpClient";
+import { bufferLogs, getEventRef } from "./confirmationBuffer";
+import { type EventRef } from "../db/alert.model";
+import { Hero } from "../db/hero.model";
+import { recordDeath, setDeathLevel } from "../db/death.model";
+import { getWallet } from "../db/wallet.model";
+import { storeHeroMetadata } from "../utils/heroMetadata";
 
-const DEATH_EVENT_ABI = parseAbiItem("event Death(uint256 id)");
+export const DEATH_EVENT_ABI = parseAbiItem("event Death(uint256 id)");
 const METADATA_BASE_URI = "https://api.onchainheroes.xyz/hero/";
 
+function decodeDeathLog(log: Log): { id: bigint } {
+  const { args } = decodeEventLog({
+    abi: [DEATH_EVENT_ABI],
+    data: log.data,
+    topics: log.topics,
+  });
+  return args;
+}
+
 /**
  * Handle a single Death event log
  */
-async function handleDeathLog(heroIdBig: bigint) {
+async function handleDeathLog(
+  heroIdBig: bigint,
+  event: EventRef,
+  blockNumber: number,
+  diedAt: Date
+) {
   const heroIdNum = Number(heroIdBig);
 
   console.log(`[handleDeathLog] Received Death event for hero #${heroIdNum}.`);
 
-  try {
-    // Fetch metadata to include in the tweet
-    const metadataUrl = `${METADATA_BASE_URI}${heroIdNum}`;
-    console.log(
-      `[handleDeathLog] Fetching hero #${heroIdNum} metadata from: ${metadataUrl}`
+  // Persist the death first, so it is kept even if the alert fails
+  const { death, created } = await recordDeath({
+    tokenId: heroIdNum,
+    blockNumber,
+    txHash: event.txHash,
+    logIndex: event.logIndex,
+    diedAt,
+  });
+  if (!created && death.txHash !== event.txHash.toLowerCase()) {
+    console.warn(
+      `[handleDeathLog] Hero #${heroIdNum} already died in tx ${death.txHash}. Skipping.`
     );
+    return;
+  }
+
+  // Fetch metadata to include in the alert
+  const metadataUrl = `${METADATA_BASE_URI}${heroIdNum}`;
+  console.log(
+    `[handleDeathLog] Fetching hero #${heroIdNum} metadata from: ${metadataUrl}`
+  );
 
-    const res = await axios.get(metadataUrl, { timeout: 10000 });
-    const metadata = res.data;
+  const res = await axios.get(metadataUrl, { timeout: 10000 });
+  const metadata: HeroMetadata = res.data;
 
-    const levelAttr = metadata?.attributes?.find(
-      (attr: any) => attr.trait_type === "Season 1 Level"
+  const levelAttr = metadata?.attributes?.find(
+    (attr) => attr.trait_type === "Season 1 Level"
+  );
+  const level = levelAttr ? Number(levelAttr.value) : undefined;
+  if (level !== undefined) await setDeathLevel(heroIdNum, level);
+
+  // Snapshot the hero as it died, without holding back the alert
+  try {
+    await storeHeroMetadata(heroIdNum, metadata, "death");
+  } catch (err) {
+    console.error(
+      `[handleDeathLog] Failed to store metadata of hero #${heroIdNum}:`,
+      err
     );
-    const level = levelAttr ? levelAttr.value : undefined;
+  }
 
-    // Tweet about hero death
-    await tweetDeath(heroIdNum.toString(), metadata?.image, level);
+  // The reveal time and owner are only known for heroes we saw revealed/staked
+  const hero = await Hero.findOne(
+    { tokenId: heroIdNum },
+    { revealedAt: 1, lastStaker: 1 }
+  );
+  const owner = hero?.lastStaker;
+  const wallet = owner ? await getWallet(owner) : null;
+
+  const alert = {
+    tokenId: heroIdNum,
+    level,
+    owner,
+    ownerLabel: wallet?.label,
+    metadata,
+    revealedAt: hero?.revealedAt,
+    diedAt: death.diedAt,
+    event,
+  };
+
+  // Alert on every enabled channel that hasn't seen this event yet
+  await dispatchAlert({ type: "death", ...alert });
+
+  console.log(
+    `[handleDeathLog] Hero #${heroIdNum} death alert dispatched successfully.`
+  );
 
+  if (owner && wallet?.watch) {
+    await dispatchAlert({
+      ...alert,
+      type: "watch-death",
+      owner,
+      ownerLabel: wallet.label,
+    });
     console.log(
-      `[handleDeathLog] Hero #${heroIdNum} death tweet sent successfully.`
+      `[handleDeathLog] Hero #${heroIdNum} watchlist alert dispatched for ${wallet.label}.`
     );
-  } catch (error) {
-    console.error(
-      `[handleDeathLog] Failed handling death for hero #${heroIdNum}:`,
-      error
+  }
+}
+
+/**
+ * Timestamp of the block a log was mined in, so backfilled deaths get
+ * their real time of death. Falls back to now if the block can't be read.
+ */
+async function getBlockTime(log: Log): Promise<Date> {
+  if (log.blockNumber === null) return new Date();
+  try {
+    const block = await sharedHttpClient.getBlock({
+      blockNumber: log.blockNumber,
+    });
+    return new Date(Number(block.timestamp) * 1000);
+  } catch (err) {
+    console.warn(
+      `[monitorEndgameEvents] Couldn't read block ${log.blockNumber}, using the current time:`,
+      (err as Error).message
+    );
+    return new Date();
+  }
+}
+
+/**
+ * Process a batch of Death logs, whether they come from the live
+ * subscription or from the historical backfill. Errors are thrown, so that
+ * the confirmation buffer lets the backfill read a failed log again.
+ */
+export async function processDeathLogs(logs: Log[]) {
+  for (const log of logs) {
+    let id: bigint;
+    try {
+      ({ id } = decodeDeathLog(log));
+    } catch (error) {
+      console.error("[monitorEndgameEvents] Error decoding log:", error);
+      continue;
+    }
+
+    await handleDeathLog(
+      id,
+      getEventRef(log),
+      Number(log.blockNumber),
+      await getBlockTime(log)
     );
-    // Log but don't rethrow - we want to continue monitoring
   }
 }
 
 /**
- * Set up the event subscription with error handling
+ * Set up the event subscription with error handling.
+ * Returns the watcher's unsubscribe function.
  */
-function setupDeathEventSubscription() {
+function setupDeathEventSubscription(): () => void {
   console.log(
     "[monitorEndgameEvents] Setting up event subscription for Death events..."
   );
 
   // Use the enhanced watchEventWithErrorHandling function
-  watchEventWithErrorHandling({
+  return watchEventWithErrorHandling({
     address: ENDGAME_CONTRACT_ADDRESS as `0x${string}`,
     event: DEATH_EVENT_ABI,
-    onLogs: async (logs: Log[]) => {
-      for (const log of logs) {
-        try {
-          const { id } = log.args as { id: bigint };
-          await handleDeathLog(id);
-        } catch (error) {
-          console.error(
-            "[monitorEndgameEvents] Error processing death log:",
-            error
-          );
-          // Continue with next log even if one fails
-        }
-      }
-    },
+    // Hold logs until they are deep enough to survive a reorg
+    onLogs: async (logs: Log[]) => bufferLogs(logs, processDeathLogs),
     onError: (err: any) => {
       console.error("[monitorEndgameEvents] WebSocket error:", err);
       // No need to rethrow - our wrapper will handle errors properly
@@ -93,16 +196,8 @@ function setupDeathEventSubscription() {
 export async function monitorEndgameEvents() {
   console.log("[monitorEndgameEvents] Starting Endgame monitor...");
 
-  // Initial setup
-  setupDeathEventSubscription();
-
-  // Register for reconnection handling
-  registerSubscription(() => {
-    console.log(
-      "[monitorEndgameEvents] Reconnecting - resetting event subscription..."
-    );
-    setupDeathEventSubscription();
-  });
+  // Register (or replace) the watcher; it is recreated on every reconnection
+  await registerSubscription("endgame:Death", setupDeathEventSubscription);
 
   console.log("[monitorEndgameEvents] Endgame monitoring is active.");
 }
@@ -0,0 +1,202 @@
+// path: src/monitor/levelSweep.ts
+/**
+ * Periodically re-reads the metadata of every living revealed hero and diffs
+ * its "Season 1 Level" against the level stored on the Hero document.
+ *
+ * Every new level is kept in the level history. The first time a hero is
+ * swept its level is only recorded as a baseline, so starting the sweep on an
+ * existing collection doesn't flood the channels. Level-ups then raise an
+ * alert when one of the LEVEL_UP_ALERTS triggers matches:
+ *  - "first": no other hero ever reached that level (from LEVEL_UP_FIRST_MIN_LEVEL up)
+ *  - "unique": the hero is a Unique
+ *  - "all": any level-up
+ * With LEVEL_UP_ALERTS=none no trigger matches, levels are only recorded.
+ *
+ * Fetched metadata is stored through storeHeroMetadata, so any change also
+ * gets a snapshot. Metadata is fetched concurrently, but levels are compared and stored one
+ * hero at a time so two heroes reaching a level in the same sweep can't both
+ * be announced as the first.
+ */
+
+import axios from "axios";
+import pLimit from "p-limit";
+import {
+  LEVEL_SWEEP_INTERVAL_MINUTES,
+  LEVEL_UP_ALERTS,
+  LEVEL_UP_FIRST_MIN_LEVEL,
+  NFT_COLLECTION_BASE_URI,
+} from "../config";
+import { Hero } from "../db/hero.model";
+import { recordLevel } from "../db/levelHistory.model";
+import { getWallet } from "../db/wallet.model";
+import {
+  dispatchAlert,
+  type HeroMetadata,
+  type LevelUpTrigger,
+} from "../notifiers";
+import { getLevel, isUnique } from "../notifiers/format";
+import { hasChanged, storeHeroMetadata } from "../utils/heroMetadata";
+import { describeDiff } from "../utils/metadataDiff";
+
+const FETCH_CONCURRENCY = 10;
+
+let isSweeping = false;
+
+/**
+ * Which of the configured triggers a level-up matches.
+ */
+async function getTriggers(
+  tokenId: number,
+  level: number,
+  metadata: HeroMetadata
+): Promise<LevelUpTrigger[]> {
+  const triggers: LevelUpTrigger[] = [];
+
+  if (LEVEL_UP_ALERTS.includes("first") && level >= LEVEL_UP_FIRST_MIN_LEVEL) {
+    const reachedBefore = await Hero.exists({
+      tokenId: { $ne: tokenId },
+      level: { $gte: level },
+    });
+    if (!reachedBefore) triggers.push("first");
+  }
+
+  if (LEVEL_UP_ALERTS.includes("unique") && isUnique(metadata)) {
+    triggers.push("unique");
+  }
+
+  if (LEVEL_UP_ALERTS.includes("all")) triggers.push("all");
+
+  return triggers;
+}
+
+/**
+ * Compare a hero's fetched level with the stored one, record it and alert if needed.
+ */
+async function checkHeroLevel(
+  tokenId: number,
+  storedLevel: number | undefined,
+  metadata: HeroMetadata
+) {
+  // Every fetch goes through the snapshot store, so trait changes are kept too
+  const update = await storeHeroMetadata(tokenId, metadata, "level-sweep");
+  if (hasChanged(update) && update.diff) {
+    console.log(
+      `[levelSweep] Hero #${tokenId} metadata changed (version ${update.version}): ${describeDiff(update.diff).join("; ")}`
+    );
+  }
+
+  const level = getLevel(metadata);
+  if (level === undefined || level === storedLevel) return;
+
+  if (storedLevel === undefined || level < storedLevel) {
+    // Baseline (or a metadata correction), nothing to announce
+    await recordLevel({
+      tokenId,
+      level,
+      previousLevel: storedLevel ?? null,
+      detectedAt: new Date(),
+    });
+    await Hero.updateOne({ tokenId }, { level });
+    return;
+  }
+
+  // Triggers must be computed before this hero's new level is stored
+  const triggers = await getTriggers(tokenId, level, metadata);
+
+  console.log(
+    `[levelSweep] Hero #${tokenId} leveled up ${storedLevel} -> ${level}` +
+      (triggers.length > 0 ? ` (${triggers.join(", ")}).` : ".")
+  );
+
+  // Queue the alert before storing the level: if either fails, the next sweep
+  // sees the level-up again. Queueing is idempotent, the ledger key is the level.
+  if (triggers.length > 0) {
+    const hero = await Hero.findOne({ tokenId }, { lastStaker: 1 });
+    const owner = hero?.lastStaker;
+    const wallet = owner ? await getWallet(owner) : null;
+
+    await dispatchAlert({
+      type: "level-up",
+      tokenId,
+      level,
+      previousLevel: storedLevel,
+      triggers,
+      owner,
+      ownerLabel: wallet?.label,
+      metadata,
+      // Level-ups aren't on-chain events, the ledger key is the level itself
+      event: { txHash: `level:${tokenId}:${level}`, logIndex: 0 },
+    });
+  }
+
+  await recordLevel({
+    tokenId,
+    level,
+    previousLevel: storedLevel,
+    detectedAt: new Date(),
+  });
+  await Hero.updateOne({ tokenId }, { level });
+}
+
+/**
+ * Fetch the metadata of every living revealed hero and check its level.
+ */
+async function sweepLevels() {
+  const heroes = await Hero.find(
+    { isRevealed: true, isDead: { $ne: true } },
+    { tokenId: 1, level: 1 }
+  ).lean();
+
+  console.log(`[levelSweep] Sweeping levels of ${heroes.length} heroes...`);
+
+  const fetchLimit = pLimit(FETCH_CONCURRENCY);
+  const checkLimit = pLimit(1);
+  let failures = 0;
+
+  await Promise.all(
+    heroes.map((hero) =>
+      fetchLimit(async () => {
+        try {
+          const response = await axios.get(
+            `${NFT_COLLECTION_BASE_URI}${hero.tokenId}`,
+            { timeout: 10000 }
+          );
+          const metadata: HeroMetadata = response.data;
+          await checkLimit(() =>
+            checkHeroLevel(hero.tokenId, hero.level ?? undefined, metadata)
+          );
+        } catch (err) {
+          failures++;
+          console.warn(
+            `[levelSweep] Failed to check hero #${hero.tokenId}: ${(err as Error).message}`
+          );
+        }
+      })
+    )
+  );
+
+  console.log(
+    `[levelSweep] Sweep done (${heroes.length - failures}/${heroes.length} heroes checked).`
+  );
+}
+
+/**
+ * Sweep hero levels every LEVEL_SWEEP_INTERVAL_MINUTES.
+ * This function should be called once at application startup.
+ */
+export function startLevelSweep() {
+  const runSweep = async () => {
+    if (isSweeping) return;
+    isSweeping = true;
+    try {
+      await sweepLevels();
+    } catch (err) {
+      console.error("[levelSweep] Error in level sweep:", err);
+    } finally {
+      isSweeping = false;
+    }
+  };
+
+  runSweep();
+  setInterval(runSweep, LEVEL_SWEEP_INTERVAL_MINUTES * 60 * 1000);
+}
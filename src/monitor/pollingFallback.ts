@@ -0,0 +1,91 @@
+// path: src/monitor/pollingFallback.ts
+/**
+ * Keeps events flowing while the WebSocket transport is down by switching the
+ * staking and endgame monitors to getLogs polling over the HTTP RPC, and hands
+ * back to push subscriptions once the socket reconnects.
+ *
+ * Polling reuses the backfill passes: they read from the block checkpoint and
+ * go through the confirmation buffer, which skips logs already dispatched, so
+ * the switch in either direction leaves neither gaps nor duplicates.
+ */
+
+import {
+  getWebSocketStatus,
+  onConnectionChange,
+  setMonitorMode,
+} from "../clients/wsClient";
+import { POLLING_INTERVAL_SECONDS } from "../config";
+import { runBackfill } from "./backfill";
+
+// Short disconnections are covered by the reconnection backfill alone
+const SWITCH_DELAY_MS = 10_000;
+
+let pollTimer: NodeJS.Timeout | null = null;
+let switchTimer: NodeJS.Timeout | null = null;
+
+function pollOnce() {
+  runBackfill().catch((err) =>
+    console.error("[pollingFallback] Polling pass error:", err)
+  );
+}
+
+/**
+ * Switch to polling mode if the socket is still down after SWITCH_DELAY_MS.
+ */
+function schedulePolling() {
+  if (pollTimer || switchTimer) return;
+
+  switchTimer = setTimeout(() => {
+    switchTimer = null;
+    if (getWebSocketStatus().isConnected) return;
+
+    console.warn(
+      `[pollingFallback] WebSocket is down. Polling logs over HTTP every ${POLLING_INTERVAL_SECONDS}s...`
+    );
+    setMonitorMode("polling");
+    pollOnce();
+    pollTimer = setInterval(pollOnce, POLLING_INTERVAL_SECONDS * 1000);
+  }, SWITCH_DELAY_MS);
+}
+
+/**
+ * Stop polling and hand back to the push subscriptions.
+ */
+function stopPolling() {
+  if (switchTimer) {
+    clearTimeout(switchTimer);
+    switchTimer = null;
+  }
+  if (!pollTimer) return;
+
+  clearInterval(pollTimer);
+  pollTimer = null;
+  setMonitorMode("push");
+  console.log(
+    "[pollingFallback] WebSocket is back. Handing over to push subscriptions."
+  );
+
+  // One last pass covers blocks between the last poll and the new subscriptions
+  pollOnce();
+}
+
+/**
+ * Arm the fallback: follow the socket state from now on.
+ * This function should be called once at application startup.
+ */
+export function startPollingFallback() {
+  console.log("[pollingFallback] Arming HTTP polling fallback...");
+
+  onConnectionChange((connected) => {
+    if (connected) {
+      stopPolling();
+    } else {
+      schedulePolling();
+    }
+  });
+
+  // The socket may already be down (or never came up) at startup
+  if (!getWebSocketStatus().isConnected) {
+    schedulePolling();
+  }
+}
@@ -1,125 +1,250 @@
 // path: src/monitor/revealQueue.ts
-// Dev note: This file manages an in-memory queue of reveal jobs. It retries metadata fetching with concurrency limit.
+// Dev note: This file manages a Mongo-backed queue of reveal jobs. Jobs are leased while in flight so they
+// resume after a crash, retried with exponential backoff, and moved to a dead-letter state after MAX_RETRIES_PER_JOB.
 
 import pLimit from "p-limit";
 import { fetchMetadataAndAlert } from "../utils/metadata";
 import { setHeroRevealed, isHeroRevealed } from "../utils/heroRevealCheck";
+import { RevealJob, type IRevealJob } from "../db/revealJob.model";
+import { type EventRef } from "../db/alert.model";
 
 const CONCURRENCY_LIMIT = 5; // How many metadata fetches in parallel
 const MAX_RETRIES_PER_JOB = 5; // How many times we retry a single job
-const PROCESS_INTERVAL_MS = 30_000; // 30s between each processing loop
-
-interface RevealJob {
-  tokenId: string;
-  owner: string;
-  retryCount: number;
-}
-
-let pendingReveals: RevealJob[] = [];
+const MAX_JOBS_PER_CYCLE = 50; // How many jobs we claim in a single loop
+const PROCESS_INTERVAL_MS = 10_000; // 10s between each processing loop
+const FIRST_ATTEMPT_DELAY_MS = 15_000; // Give the metadata API time to update
+const LEASE_MS = 5 * 60_000; // In-flight jobs are reclaimed after this long
+const BASE_RETRY_DELAY_MS = 30_000; // First retry after 30 seconds
+const MAX_RETRY_DELAY_MS = 30 * 60_000; // 30 minutes cap
 
 // p-limit concurrency controller
 const limit = pLimit(CONCURRENCY_LIMIT);
 
+let isProcessing = false;
+
+/**
+ * Computes the delay before the next attempt of a failed job.
+ */
+function getRetryDelayMs(retryCount: number): number {
+  const delay = BASE_RETRY_DELAY_MS * 2 ** (retryCount - 1);
+  return Math.min(delay, MAX_RETRY_DELAY_MS);
+}
+
 /**
  * Enqueue a new reveal job. This is typically called from handleStakingLog
  * whenever a new hero is staked and not revealed yet.
+ * A token only ever has one job: existing jobs (including dead ones) are left untouched.
  */
-export function enqueueReveal(tokenId: string, owner: string): void {
-  // We could do a check to avoid duplicates if needed
-  // For example:
-  const alreadyInQueue = pendingReveals.some(
-    (job) => job.tokenId === tokenId && job.owner === owner
-  );
-  if (alreadyInQueue) {
-    console.log(
-      `[revealQueue] Job for token #${tokenId} is already in queue. Skipping re-enqueue.`
+export async function enqueueReveal(
+  tokenId: string,
+  owner: string,
+  event: EventRef
+): Promise<void> {
+  try {
+    const result = await RevealJob.updateOne(
+      { tokenId: Number(tokenId) },
+      {
+        $setOnInsert: {
+          tokenId: Number(tokenId),
+          owner,
+          txHash: event.txHash,
+          logIndex: event.logIndex,
+          status: "pending",
+          retryCount: 0,
+          nextAttemptAt: new Date(Date.now() + FIRST_ATTEMPT_DELAY_MS),
+        },
+      },
+      { upsert: true }
     );
-    return;
+
+    if (result.upsertedCount === 0) {
+      console.log(
+        `[revealQueue] Job for token #${tokenId} already exists. Skipping re-enqueue.`
+      );
+      return;
+    }
+  } catch (err: any) {
+    // Two concurrent upserts can race on the unique index
+    if (err?.code === 11000) {
+      console.log(
+        `[revealQueue] Job for token #${tokenId} already exists. Skipping re-enqueue.`
+      );
+      return;
+    }
+    throw err;
   }
 
-  pendingReveals.push({
-    tokenId,
-    owner,
-    retryCount: 0,
-  });
   console.log(
     `[revealQueue] Enqueued job for token #${tokenId} (owner=${owner}).`
   );
 }
 
 /**
- * Process the queue in parallel (with concurrency limit).
- * Each job tries to fetch metadata and tweet. If it fails, it increments retryCount
- * and remains in the queue to be re-attempted next time, unless it hits MAX_RETRIES.
+ * Atomically claim the next due job: either a pending job whose next attempt
+ * is due, or an in-flight job whose lease expired (e.g. after a crash).
+ */
+async function claimNextJob(): Promise<IRevealJob | null> {
+  const now = new Date();
+  return RevealJob.findOneAndUpdate(
+    {
+      $or: [
+        { status: "pending", nextAttemptAt: { $lte: now } },
+        { status: "in-flight", lockedUntil: { $lte: now } },
+      ],
+    },
+    {
+      $set: {
+        status: "in-flight",
+        lockedUntil: new Date(now.getTime() + LEASE_MS),
+      },
+    },
+    { sort: { nextAttemptAt: 1 }, new: true }
+  ).lean<IRevealJob>();
+}
+
+/**
+ * Mark a job as done and release its lease.
+ */
+async function completeJob(tokenId: number) {
+  await RevealJob.updateOne(
+    { tokenId },
+    { $set: { status: "done", lockedUntil: null, lastError: null } }
+  );
+}
+
+/**
+ * Record a failed attempt: schedule a retry with backoff, or move the job
+ * to the dead-letter state once it hits MAX_RETRIES_PER_JOB.
+ */
+async function failJob(job: IRevealJob, err: Error) {
+  const newRetryCount = job.retryCount + 1;
+
+  if (newRetryCount < MAX_RETRIES_PER_JOB) {
+    const delayMs = getRetryDelayMs(newRetryCount);
+    await RevealJob.updateOne(
+      { tokenId: job.tokenId },
+      {
+        $set: {
+          status: "pending",
+          retryCount: newRetryCount,
+          nextAttemptAt: new Date(Date.now() + delayMs),
+          lockedUntil: null,
+          lastError: err.message,
+        },
+      }
+    );
+    console.log(
+      `[revealQueue] Will retry token #${job.tokenId} in ${Math.round(delayMs / 1000)}s (attempt ${newRetryCount}).`
+    );
+  } else {
+    await RevealJob.updateOne(
+      { tokenId: job.tokenId },
+      {
+        $set: {
+          status: "dead",
+          retryCount: newRetryCount,
+          lockedUntil: null,
+          lastError: err.message,
+        },
+      }
+    );
+    console.error(
+      `[revealQueue] Max retries reached for token #${job.tokenId}. Moved to dead-letter list.`
+    );
+  }
+}
+
+/**
+ * Run a single claimed job: fetch metadata, tweet and mark the hero revealed.
+ */
+async function runJob(job: IRevealJob) {
+  const tokenId = job.tokenId.toString();
+  const { owner, retryCount, txHash, logIndex } = job;
+
+  try {
+    // Before we do anything, check if it's already revealed in DB (edge case)
+    const alreadyRevealed = await isHeroRevealed(tokenId);
+    if (alreadyRevealed) {
+      console.log(
+        `[revealQueue] Token #${tokenId} is already revealed. Skipping.`
+      );
+      await completeJob(job.tokenId);
+      return;
+    }
+
+    // Attempt metadata fetch + tweet
+    await fetchMetadataAndAlert(tokenId, owner, { txHash, logIndex });
+
+    // Mark hero as revealed in DB
+    await setHeroRevealed(tokenId);
+    await completeJob(job.tokenId);
+
+    console.log(
+      `[revealQueue] Successfully processed token #${tokenId} (owner=${owner}).`
+    );
+  } catch (err) {
+    // Something failed (API, network, still unrevealed, etc.)
+    console.error(
+      `[revealQueue] Failed to process token #${tokenId} (attempt ${retryCount + 1}):`,
+      (err as Error).message
+    );
+    await failJob(job, err as Error);
+  }
+}
+
+/**
+ * Claim every due job (up to MAX_JOBS_PER_CYCLE) and process them in parallel
+ * with a concurrency limit.
  */
 async function processQueueOnce() {
-  if (pendingReveals.length === 0) {
+  const jobs: IRevealJob[] = [];
+  while (jobs.length < MAX_JOBS_PER_CYCLE) {
+    const job = await claimNextJob();
+    if (!job) break;
+    jobs.push(job);
+  }
+
+  if (jobs.length === 0) {
     // Nothing to do
     return;
   }
 
-  console.log(
-    `[revealQueue] Processing ${pendingReveals.length} pending jobs...`
-  );
+  console.log(`[revealQueue] Processing ${jobs.length} due jobs...`);
 
-  // We'll build a new array of reveals that still need to be retried after this pass
-  const nextPending: RevealJob[] = [];
-
-  // Build an array of limit-wrapped tasks
-  const tasks = pendingReveals.map((job) =>
-    limit(async () => {
-      const { tokenId, owner, retryCount } = job;
-
-      try {
-        // Before we do anything, check if it's already revealed in DB (edge case)
-        const alreadyRevealed = await isHeroRevealed(tokenId);
-        if (alreadyRevealed) {
-          console.log(
-            `[revealQueue] Token #${tokenId} is already revealed. Skipping.`
-          );
-          return; // job done, we won't re-push it
-        }
-
-        // Attempt metadata fetch + tweet
-        await fetchMetadataAndAlert(tokenId, owner);
-
-        // Mark hero as revealed in DB
-        await setHeroRevealed(tokenId);
-
-        console.log(
-          `[revealQueue] Successfully processed token #${tokenId} (owner=${owner}).`
-        );
-      } catch (err) {
-        // Something failed (API, network, etc.)
-        console.error(
-          `[revealQueue] Failed to process token #${tokenId} (attempt ${retryCount + 1}):`,
-          (err as Error).message
-        );
-
-        // We decide if we retry or abandon
-        const newRetryCount = retryCount + 1;
-        if (newRetryCount < MAX_RETRIES_PER_JOB) {
-          nextPending.push({ tokenId, owner, retryCount: newRetryCount });
-          console.log(
-            `[revealQueue] Will retry token #${tokenId} next cycle (attempt ${newRetryCount}).`
-          );
-        } else {
-          console.error(
-            `[revealQueue] Max retries reached for token #${tokenId}. Abandoning job.`
-          );
-        }
-      }
-    })
-  );
+  await Promise.all(jobs.map((job) => limit(() => runJob(job))));
 
-  // Wait for all tasks in this iteration
-  await Promise.all(tasks);
+  const pendingCount = await RevealJob.countDocuments({
+    status: { $in: ["pending", "in-flight"] },
+  });
+  console.log(`[revealQueue] End of cycle. ${pendingCount} jobs left pending.`);
+}
 
-  // Replace the queue with the ones that remain to be retried
-  pendingReveals = nextPending;
-  console.log(
-    `[revealQueue] End of cycle. ${pendingReveals.length} jobs left pending.`
+/**
+ * List the jobs that exhausted their retries, most recent first.
+ */
+export async function listDeadReveals(): Promise<IRevealJob[]> {
+  return RevealJob.find({ status: "dead" })
+    .sort({ updatedAt: -1 })
+    .lean<IRevealJob[]>();
+}
+
+/**
+ * Put a dead job back in the queue with a fresh retry budget.
+ * Returns false if there is no dead job for this token.
+ */
+export async function requeueDeadReveal(tokenId: string): Promise<boolean> {
+  const result = await RevealJob.updateOne(
+    { tokenId: Number(tokenId), status: "dead" },
+    {
+      $set: {
+        status: "pending",
+        retryCount: 0,
+        nextAttemptAt: new Date(),
+        lockedUntil: null,
+      },
+    }
   );
+  return result.modifiedCount > 0;
 }
 
 /**
@@ -129,13 +254,24 @@ async function processQueueOnce() {
 export function startQueueProcessing() {
   console.log("[revealQueue] Starting queue processing loop...");
 
-  // Immediately run one pass (optional)
-  processQueueOnce().catch((err) =>
+  const runCycle = async () => {
+    // Skip this tick if the previous cycle is still running
+    if (isProcessing) return;
+    isProcessing = true;
+    try {
+      await processQueueOnce();
+    } finally {
+      isProcessing = false;
+    }
+  };
+
+  // Immediately run one pass, which also resumes jobs left in flight by a crash
+  runCycle().catch((err) =>
     console.error("[revealQueue] Initial process error:", err)
   );
 
   setInterval(() => {
-    processQueueOnce().catch((err) =>
+    runCycle().catch((err) =>
       console.error("[revealQueue] Error in setInterval cycle:", err)
     );
   }, PROCESS_INTERVAL_MS);
@@ -2,99 +2,138 @@
 /**
  * Monitor for staking events with enhanced error handling and reconnection capabilities.
  * Uses the improved WebSocket client for robust operation.
+ *
+ * Every Staked event goes into the staking ledger, and Staked events of
+ * unrevealed heroes also enqueue a reveal job; one failing doesn't stop the
+ * other. Unstaked events aren't subscribed to until the staking contract's
+ * Unstaked ABI is added.
  */
 
-import { parseAbiItem, type Log } from "viem";
+import { decodeEventLog, parseAbiItem, type Log } from "viem";
 import { STAKING_CONTRACT_ADDRESS } from "../config";
 import { Hero } from "../db/hero.model";
-import { setHeroRevealed } from "../utils/heroRevealCheck";
-import { tweetReveal } from "../twitter/twitter";
-import axios from "axios";
+import { getWatchedWallet } from "../db/wallet.model";
+import { recordStakeEvent, type StakeAction } from "../db/stakeEvent.model";
+import { dispatchAlert } from "../notifiers";
+import { enqueueReveal } from "./revealQueue";
 import {
   watchEventWithErrorHandling,
   registerSubscription,
 } from "../clients/wsClient";
+import { bufferLogs, getEventRef } from "./confirmationBuffer";
+import { type EventRef } from "../db/alert.model";
 
-const STAKING_EVENT_ABI = parseAbiItem(
+export const STAKING_EVENT_ABI = parseAbiItem(
   "event Staked(address owner, uint256 tokenId, uint256 timestamp)"
 );
 
+interface StakingLogArgs {
+  owner: string;
+  tokenId: bigint;
+  timestamp: bigint;
+}
+
+function decodeStakingLog(log: Log): StakingLogArgs {
+  const { args } = decodeEventLog({
+    abi: [STAKING_EVENT_ABI],
+    data: log.data,
+    topics: log.topics,
+  });
+  return args;
+}
+
 const unrevealedTokensSet: Set<number> = new Set();
-const UNREVEALED_URL = "https://storage.onchainheroes.xyz/unrevealed/hero.gif";
+
+/**
+ * Alert when a wallet on the watchlist stakes a hero.
+ */
+async function alertIfWatched(
+  owner: string,
+  tokenIdNum: number,
+  event: EventRef
+) {
+  const wallet = await getWatchedWallet(owner);
+  if (!wallet) return;
+
+  const hero = await Hero.findOne({ tokenId: tokenIdNum }).lean();
+  await dispatchAlert({
+    type: "watch-stake",
+    tokenId: tokenIdNum,
+    owner,
+    ownerLabel: wallet.label,
+    metadata: {
+      name: hero?.name,
+      description: hero?.description,
+      image: hero?.image,
+      attributes: hero?.attributes,
+    },
+    event,
+  });
+}
+
+/**
+ * Add a staking log to the ledger.
+ */
+async function recordStakingLog(
+  action: StakeAction,
+  args: StakingLogArgs,
+  log: Log
+) {
+  const event = getEventRef(log);
+  const recorded = await recordStakeEvent({
+    action,
+    tokenId: Number(args.tokenId),
+    owner: args.owner,
+    timestamp: new Date(Number(args.timestamp) * 1000),
+    blockNumber: Number(log.blockNumber),
+    txHash: event.txHash,
+    logIndex: event.logIndex,
+  });
+  if (!recorded) {
+    console.log(
+      `[monitorStakingEvents] ${action} of token #${args.tokenId} already in the ledger.`
+    );
+  }
+}
 
 /**
  * Handle a single staking event log
  */
-async function handleStakingLog(owner: string, tokenIdBig: bigint) {
+async function handleStakingLog(
+  owner: string,
+  tokenIdBig: bigint,
+  event: EventRef
+) {
   const tokenIdNum = Number(tokenIdBig);
 
-  if (!unrevealedTokensSet.has(tokenIdNum)) {
-    // It's either already revealed or not relevant
-    return;
-  }
+  // Remember who staked the hero, death alerts name its owner from it
+  await Hero.updateOne({ tokenId: tokenIdNum }, { lastStaker: owner });
 
-  console.log(
-    `[handleStakingLog] Token #${tokenIdNum} is unrevealed; scheduling metadata fetch...`
-  );
+  // Tokens not in the set are either already revealed or not relevant
+  if (unrevealedTokensSet.has(tokenIdNum)) {
+    console.log(
+      `[handleStakingLog] Token #${tokenIdNum} is unrevealed; enqueueing reveal job...`
+    );
 
-  setTimeout(async () => {
-    try {
-      const metadataUrl = `https://api.onchainheroes.xyz/hero/${tokenIdNum}`;
-      console.log(
-        `[handleStakingLog] Fetching metadata for token #${tokenIdNum} at: ${metadataUrl}`
-      );
-      const res = await axios.get(metadataUrl, { timeout: 10000 });
-      const metadata = res.data;
-
-      // If image is still "unrevealed" => do nothing
-      if (metadata.image === UNREVEALED_URL) {
-        console.log(
-          `[handleStakingLog] Token #${tokenIdNum} is STILL unrevealed. Not setting DB to revealed.`
-        );
-        return;
-      }
-
-      const levelAttr = metadata?.attributes?.find(
-        (attr: any) => attr.trait_type === "Season 1 Level"
-      );
-      const level = levelAttr ? levelAttr.value : undefined;
-
-      // Otherwise, it's revealed => tweet and update DB
-      if (level && level > 1) {
-        console.log(
-          `[handleStakingLog] Token #${tokenIdNum} level > 1. Already revealed.`
-        );
-      } else {
-        console.log(
-          `[handleStakingLog] Token #${tokenIdNum} is revealed! Tweeting now...`
-        );
-        await tweetReveal(tokenIdNum.toString(), owner, metadata.image);
-      }
-
-      await setHeroRevealed(tokenIdNum.toString());
-      unrevealedTokensSet.delete(tokenIdNum);
-      console.log(
-        `[handleStakingLog] Token #${tokenIdNum} marked revealed and removed from set.`
-      );
-    } catch (error) {
-      console.error(
-        `[handleStakingLog] Failed to fetch or reveal token #${tokenIdNum}:`,
-        error
-      );
-      // If you want a more robust retry, keep token in set (which we do by default).
-      // We'll attempt again next time we see a "Staked" event, or after re-running initMetadata.
-    }
-  }, 15_000);
+    // The reveal queue persists the job and retries it until the metadata is revealed.
+    // Jobs that end up dead are re-queued by hand with scripts/deadReveals.ts.
+    await enqueueReveal(tokenIdNum.toString(), owner, event);
+    unrevealedTokensSet.delete(tokenIdNum);
+  }
+
+  // After the reveal, so that a failed alert doesn't keep it from being enqueued
+  await alertIfWatched(owner, tokenIdNum, event);
 }
 
 /**
  * Load all tokens that are isRevealed=false from DB into an in-memory Set.
+ * Dead heroes are left out, there is no point announcing their reveal.
  */
 async function loadUnrevealedTokens() {
   console.log("[monitorStakingEvents] Loading unrevealed tokens from DB...");
   try {
     const unrevealedHeroes = await Hero.find(
-      { isRevealed: false },
+      { isRevealed: false, isDead: { $ne: true } },
       { tokenId: 1 }
     ).lean();
 
@@ -115,32 +154,51 @@ async function loadUnrevealedTokens() {
 }
 
 /**
- * Set up the event subscription with error handling
+ * Process a batch of Staked logs, whether they come from the live
+ * subscription or from the historical backfill.
  */
-function setupEventSubscription() {
+export async function processStakingLogs(logs: Log[]) {
+  for (const log of logs) {
+    let args: StakingLogArgs;
+    try {
+      args = decodeStakingLog(log);
+    } catch (error) {
+      console.error("[monitorStakingEvents] Error decoding log:", error);
+      continue;
+    }
+
+    // The ledger and the reveal are independent, a ledger error mustn't skip
+    // the reveal. It is still thrown afterwards so the log is read again.
+    let ledgerError: unknown;
+    try {
+      await recordStakingLog("stake", args, log);
+    } catch (error) {
+      console.error(
+        "[monitorStakingEvents] Error recording log in the ledger:",
+        error
+      );
+      ledgerError = error;
+    }
+    await handleStakingLog(args.owner, args.tokenId, getEventRef(log));
+    if (ledgerError) throw ledgerError;
+  }
+}
+
+/**
+ * Set up the event subscription with error handling.
+ * Returns the watcher's unsubscribe function.
+ */
+function setupEventSubscription(): () => void {
   console.log(
     "[monitorStakingEvents] Setting up event subscription for Staked events..."
   );
 
   // Use the enhanced watchEventWithErrorHandling function
-  watchEventWithErrorHandling({
+  return watchEventWithErrorHandling({
     address: STAKING_CONTRACT_ADDRESS as `0x${string}`,
     event: STAKING_EVENT_ABI,
-    onLogs: async (logs: Log[]) => {
-      for (const log of logs) {
-        try {
-          const { owner, tokenId } = log.args as {
-            owner: string;
-            tokenId: bigint;
-            timestamp: bigint;
-          };
-          await handleStakingLog(owner, tokenId);
-        } catch (error) {
-          console.error("[monitorStakingEvents] Error processing log:", error);
-          // Continue with next log even if one fails
-        }
-      }
-    },
+    // Hold logs until they are deep enough to survive a reorg
+    onLogs: async (logs: Log[]) => bufferLogs(logs, processStakingLogs),
     onError: (err: any) => {
       console.error("[monitorStakingEvents] WebSocket error:", err);
       // No need to rethrow - our wrapper will handle errors properly
@@ -154,17 +212,10 @@ function setupEventSubscription() {
 export async function monitorStakingEvents() {
   console.log("[monitorStakingEvents] Starting staking event monitor...");
 
-  // Initial setup
-  await loadUnrevealedTokens();
-  setupEventSubscription();
-
-  // Register for reconnection handling
-  registerSubscription(async () => {
-    console.log(
-      "[monitorStakingEvents] Reconnecting - reloading unrevealed tokens..."
-    );
+  // Register (or replace) the watcher; it is recreated on every reconnection
+  await registerSubscription("staking:Staked", async () => {
     await loadUnrevealedTokens();
-    setupEventSubscription();
+    return setupEventSubscription();
   });
 
   console.log("[monitorStakingEvents] Staking event monitoring is active.");
@@ -0,0 +1,100 @@
+// path: src/monitor/streamWatchdog.ts
+/**
+ * Detects a silently dead WebSocket stream. Tracks the latest block seen
+ * through a block subscription on the shared WebSocket client, compares it
+ * with the HTTP RPC head, and forces a transport reconnect when the stream
+ * falls too far behind. The reconnect recreates every registered
+ * subscription, which includes a backfill pass over the gap.
+ */
+
+import { sharedHttpClient } from "../clients/httpClient";
+import {
+  forceReconnect,
+  getSharedWsClient,
+  registerSubscription,
+} from "../clients/wsClient";
+import { WATCHDOG_MAX_LAG_BLOCKS, WATCHDOG_MAX_LAG_SECONDS } from "../config";
+
+const CHECK_INTERVAL_MS = 30_000; // 30s between each check
+
+let lastWsBlock: bigint | null = null;
+let lastWsBlockAt = Date.now();
+let isChecking = false;
+
+/**
+ * Set up the block subscription used as the stream's pulse.
+ * Returns the watcher's unsubscribe function.
+ */
+function setupBlockSubscription(): () => void {
+  return getSharedWsClient().watchBlockNumber({
+    onBlockNumber: (blockNumber) => {
+      lastWsBlock = blockNumber;
+      lastWsBlockAt = Date.now();
+    },
+    onError: (err) => {
+      console.error("[streamWatchdog] Block subscription error:", err);
+    },
+  });
+}
+
+/**
+ * Compare the stream with the HTTP head and force a reconnect if it stalled.
+ */
+async function checkStream() {
+  const head = await sharedHttpClient.getBlockNumber();
+  const blockLag = lastWsBlock === null ? null : Number(head - lastWsBlock);
+  const secondsSinceLastBlock = Math.round((Date.now() - lastWsBlockAt) / 1000);
+
+  const isBehind = blockLag !== null && blockLag > WATCHDOG_MAX_LAG_BLOCKS;
+  const isSilent = secondsSinceLastBlock > WATCHDOG_MAX_LAG_SECONDS;
+  if (!isBehind && !isSilent) {
+    return;
+  }
+
+  console.warn(
+    `[streamWatchdog] WebSocket stream stalled (lastBlock=${lastWsBlock ?? "none"}, ` +
+      `head=${head}, lag=${blockLag ?? "n/a"} blocks, silent for ${secondsSinceLastBlock}s). ` +
+      `Forcing reconnect and gap backfill...`
+  );
+
+  // Give the new connection a full grace period before judging it again
+  lastWsBlockAt = Date.now();
+  await forceReconnect();
+}
+
+/**
+ * Returns the latest block seen on the WebSocket stream and when.
+ */
+export function getStreamWatchdogStatus(): {
+  lastWsBlock: string | null;
+  lastWsBlockAt: string;
+} {
+  return {
+    lastWsBlock: lastWsBlock === null ? null : lastWsBlock.toString(),
+    lastWsBlockAt: new Date(lastWsBlockAt).toISOString(),
+  };
+}
+
+/**
+ * Start the block subscription and the periodic stream check.
+ * This function should be called once at application startup.
+ */
+export async function startStreamWatchdog() {
+  console.log(
+    `[streamWatchdog] Watching stream (max lag ${WATCHDOG_MAX_LAG_BLOCKS} blocks / ${WATCHDOG_MAX_LAG_SECONDS}s)...`
+  );
+
+  await registerSubscription("watchdog:blocks", setupBlockSubscription);
+
+  setInterval(async () => {
+    if (isChecking) return;
+    isChecking = true;
+    try {
+      await checkStream();
+    } catch (err) {
+      console.error("[streamWatchdog] Error in setInterval cycle:", err);
+    } finally {
+      isChecking = false;
+    }
+  }, CHECK_INTERVAL_MS);
+}
@@ -0,0 +1,247 @@
+// path: src/notifiers/discordNotifier.ts
+// Dev note: Notifier posting alerts to a Discord channel webhook as rich embeds, with the hero image attached.
+
+import axios from "axios";
+import { DISCORD_MAX_RETRIES } from "../config";
+import {
+  getAlertMedia,
+  getBurstMedia,
+  type MediaData,
+} from "../media/alertMedia";
+import { createRateLimiter } from "../utils/rateLimiter";
+import { withRetry } from "../utils/retry";
+import {
+  formatBurstText,
+  getAlertLevel,
+  getOwnerName,
+  getTraits,
+  getTxUrl,
+  hasTransaction,
+} from "./format";
+import {
+  type AlertPayload,
+  type BurstPayload,
+  type DeliveryProgress,
+  type DigestPayload,
+  type Notifier,
+} from "./types";
+import { renderAlertText } from "../templates/templates";
+
+const COLORS: Record<AlertPayload["type"], number> = {
+  reveal: 0xf5b342,
+  death: 0x4a4a4a,
+  "watch-stake": 0x3b82f6,
+  "watch-death": 0x4a4a4a,
+  "level-up": 0x22c55e,
+};
+const DIGEST_COLOR = 0x8b5cf6;
+const MAX_TRAIT_FIELDS = 12; // Discord allows 25 fields per embed
+const MAX_DESCRIPTION_LENGTH = 4096;
+
+// Discord webhooks allow about 5 requests every 2 seconds
+const limiter = createRateLimiter({ tokensPerInterval: 5, intervalMs: 2000 });
+
+/**
+ * Build the embed describing an alert. The image is referenced as an attachment.
+ */
+function buildEmbed(
+  alert: AlertPayload,
+  description: string,
+  attachmentName: string | null
+) {
+  const { metadata } = alert;
+  const level = getAlertLevel(alert);
+  const title = metadata.name || `Hero #${alert.tokenId}`;
+
+  const fields: { name: string; value: string; inline?: boolean }[] = [];
+  fields.push({
+    name: "Level",
+    value: level !== undefined ? level.toString() : "Unknown",
+    inline: true,
+  });
+  if (alert.owner) {
+    fields.push({
+      name: "Owner",
+      value: getOwnerName(alert.owner, alert.ownerLabel),
+      inline: true,
+    });
+  }
+  for (const trait of getTraits(metadata).slice(0, MAX_TRAIT_FIELDS)) {
+    fields.push({
+      name: trait.trait_type,
+      value: String(trait.value),
+      inline: true,
+    });
+  }
+  const txUrl = hasTransaction(alert)
+    ? getTxUrl(alert.event.txHash)
+    : undefined;
+  if (txUrl) {
+    fields.push({ name: "Transaction", value: `[View on explorer](${txUrl})` });
+  }
+
+  return {
+    title,
+    url: txUrl,
+    description,
+    color: COLORS[alert.type],
+    fields,
+    image: attachmentName
+      ? { url: `attachment://${attachmentName}` }
+      : undefined,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/**
+ * 429 responses tell us how long to wait, in seconds.
+ */
+function getRetryAfterMs(err: any): number | undefined {
+  const retryAfter = err?.response?.data?.retry_after;
+  return typeof retryAfter === "number"
+    ? Math.ceil(retryAfter * 1000)
+    : undefined;
+}
+
+function isRetryable(err: any): boolean {
+  const status = err?.response?.status;
+  return status === undefined || status === 429 || status >= 500;
+}
+
+/**
+ * Create a notifier posting to the given Discord webhook URL.
+ */
+export function createDiscordNotifier(webhookUrl: string): Notifier {
+  /**
+   * Post a message and return its ID.
+   */
+  async function postToWebhook(
+    payload: object,
+    media: MediaData | null = null,
+    attachmentName: string | null = null
+  ): Promise<string> {
+    return withRetry(
+      async () => {
+        await limiter.acquire();
+
+        // Rebuild the form on every attempt, a sent body can't be reused
+        const form = new FormData();
+        form.append("payload_json", JSON.stringify(payload));
+        if (media && attachmentName) {
+          form.append(
+            "files[0]",
+            new Blob([media.data], { type: media.mediaType }),
+            attachmentName
+          );
+        }
+
+        try {
+          // wait=true makes Discord answer with the created message
+          const response = await axios.post(webhookUrl, form, {
+            params: { wait: true },
+            timeout: 15_000,
+          });
+          return response.data?.id as string;
+        } catch (err) {
+          const retryAfterMs = getRetryAfterMs(err);
+          if (retryAfterMs !== undefined) limiter.pauseFor(retryAfterMs);
+          throw err;
+        }
+      },
+      {
+        retries: DISCORD_MAX_RETRIES,
+        shouldRetry: isRetryable,
+        getDelayMs: getRetryAfterMs,
+        label: "discordNotifier",
+      }
+    );
+  }
+
+  return {
+    name: "discord",
+
+    render(alert: AlertPayload): string {
+      return renderAlertText(alert, "discord");
+    },
+
+    async send(
+      alert: AlertPayload,
+      text: string,
+      progress: DeliveryProgress
+    ): Promise<string> {
+      // Already posted, only marking it sent failed
+      if (progress.postIds.length > 0) return progress.postIds[0];
+
+      const media = await getAlertMedia(alert);
+      const attachmentName = media
+        ? `hero-${alert.tokenId}.${media.mediaType === "image/gif" ? "gif" : "png"}`
+        : null;
+
+      const messageId = await postToWebhook(
+        { embeds: [buildEmbed(alert, text, attachmentName)] },
+        media,
+        attachmentName
+      );
+      await progress.recordPost(messageId);
+
+      console.log(
+        `[discordNotifier] ${alert.type} alert for hero #${alert.tokenId} posted.`
+      );
+      return messageId;
+    },
+
+    async sendBurst(
+      burst: BurstPayload,
+      progress: DeliveryProgress
+    ): Promise<string> {
+      if (progress.postIds.length > 0) return progress.postIds[0];
+
+      const media = await getBurstMedia(burst);
+      const attachmentName = media ? `${burst.type}-burst.png` : null;
+
+      const messageId = await postToWebhook(
+        {
+          embeds: [
+            {
+              description: formatBurstText(burst, MAX_DESCRIPTION_LENGTH),
+              color: COLORS[burst.type],
+              image: attachmentName
+                ? { url: `attachment://${attachmentName}` }
+                : undefined,
+              timestamp: new Date().toISOString(),
+            },
+          ],
+        },
+        media,
+        attachmentName
+      );
+      await progress.recordPost(messageId);
+
+      console.log(
+        `[discordNotifier] ${burst.alerts.length} ${burst.type} alerts posted as one.`
+      );
+      return messageId;
+    },
+
+    async sendDigest(
+      digest: DigestPayload,
+      progress: DeliveryProgress
+    ): Promise<void> {
+      // Already posted, only marking it sent failed
+      if (progress.postIds.length > 0) return;
+
+      const messageId = await postToWebhook({
+        embeds: [
+          {
+            description: digest.message,
+            color: DIGEST_COLOR,
+            timestamp: new Date().toISOString(),
+          },
+        ],
+      });
+      await progress.recordPost(messageId);
+
+      console.log(`[discordNotifier] ${digest.period} digest posted.`);
+    },
+  };
+}
@@ -0,0 +1,129 @@
+// path: src/notifiers/format.ts
+// Dev note: Formatting helpers shared by the rich notifiers (Discord, Telegram).
+
+import { EXPLORER_TX_URL } from "../config";
+import {
+  type AlertPayload,
+  type BurstPayload,
+  type HeroAttribute,
+  type HeroMetadata,
+} from "./types";
+
+export const LEVEL_TRAIT = "Season 1 Level";
+
+/**
+ * Block explorer link for a transaction.
+ */
+export function getTxUrl(txHash: string): string {
+  return `${EXPLORER_TX_URL}${txHash}`;
+}
+
+/**
+ * Whether an alert comes from an on-chain transaction. Level-ups are detected
+ * off-chain and carry a synthetic event key instead.
+ */
+export function hasTransaction(alert: AlertPayload): boolean {
+  return alert.event.txHash.startsWith("0x");
+}
+
+/**
+ * Shorten an address to `0x1234…abcd`.
+ */
+export function shortenAddress(address: string): string {
+  if (address.length <= 12) return address;
+  return `${address.slice(0, 6)}…${address.slice(-4)}`;
+}
+
+/**
+ * Returns the hero's level, if the attribute is present.
+ */
+export function getLevel(metadata: HeroMetadata): number | undefined {
+  const levelAttr = metadata.attributes?.find(
+    (attr) => attr.trait_type === LEVEL_TRAIT
+  );
+  return levelAttr ? Number(levelAttr.value) : undefined;
+}
+
+/**
+ * Returns the level an alert is about: the level at death for death alerts,
+ * the current one from metadata otherwise.
+ */
+export function getAlertLevel(alert: AlertPayload): number | undefined {
+  return "level" in alert ? alert.level : getLevel(alert.metadata);
+}
+
+/**
+ * How to name a wallet in alerts: its label, or its shortened address.
+ */
+export function getOwnerName(owner: string, label?: string): string {
+  return label || shortenAddress(owner);
+}
+
+/**
+ * Returns the hero's traits, without the level which is shown on its own.
+ */
+export function getTraits(metadata: HeroMetadata): HeroAttribute[] {
+  return (metadata.attributes || []).filter(
+    (attr) => attr.trait_type !== LEVEL_TRAIT
+  );
+}
+
+/**
+ * Format a duration as its two largest units, e.g. `3d 5h` or `12m`.
+ */
+export function formatDuration(ms: number): string {
+  const minutes = Math.max(0, Math.floor(ms / 60_000));
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  const mins = minutes % 60;
+  if (days > 0) return hours > 0 ? `${days}d ${hours}h` : `${days}d`;
+  if (hours > 0) return mins > 0 ? `${hours}h ${mins}m` : `${hours}h`;
+  return `${mins}m`;
+}
+
+/**
+ * Whether a hero is a Unique.
+ */
+export function isUnique(metadata: HeroMetadata): boolean {
+  return (
+    metadata.attributes?.some(
+      (attr) => attr.trait_type === "Type" && attr.value === "Unique"
+    ) ?? false
+  );
+}
+
+/**
+ * Text of a combined post, e.g. `7 heroes fell in the last 5m.` followed by
+ * their token IDs. IDs that don't fit in `maxLength` are summed up as "N more".
+ */
+export function formatBurstText(
+  burst: BurstPayload,
+  maxLength = Infinity
+): string {
+  const count = burst.alerts.length;
+  // A burst queued within a minute still reads "in the last 1m"
+  const window = formatDuration(
+    Math.max(burst.until.getTime() - burst.since.getTime(), 60_000)
+  );
+  const headline =
+    burst.type === "death"
+      ? `${count} heroes fell in the last ${window}. Rest in peace.`
+      : `${count} heroes were revealed in the last ${window}!`;
+
+  const ids = burst.alerts.map((alert) => `#${alert.tokenId}`);
+  for (let shown = ids.length; shown > 0; shown--) {
+    const rest = ids.length - shown;
+    const list =
+      ids.slice(0, shown).join(", ") + (rest > 0 ? ` and ${rest} more` : "");
+    const text = `${headline}\n\n${list}`;
+    if (text.length <= maxLength) return text;
+  }
+  return headline;
+}
+
+/**
+ * Guess the MIME type of a hero image from its URL.
+ */
+export function getImageMimeType(imageUrl: string): string {
+  return imageUrl.toLowerCase().endsWith(".gif") ? "image/gif" : "image/png";
+}
@@ -0,0 +1,112 @@
+// path: src/notifiers/index.ts
+// Dev note: Registry of enabled notifiers (from the NOTIFIERS config) and the single entry point monitors use to send alerts.
+
+import {
+  DISCORD_WEBHOOK_URL,
+  NOTIFIERS,
+  TELEGRAM_BOT_TOKEN,
+  TELEGRAM_CHAT_IDS,
+  WEBHOOK_ENDPOINTS,
+} from "../config";
+import { type AlertChannel } from "../db/alert.model";
+import { evaluateRules } from "../rules/alertRules";
+import { enqueueAlert } from "./sendQueue";
+import { twitterNotifier } from "./twitterNotifier";
+import { createWebhookNotifier } from "./webhookNotifier";
+import { createDiscordNotifier } from "./discordNotifier";
+import { createTelegramNotifier } from "./telegramNotifier";
+import { type AlertPayload, type Notifier } from "./types";
+
+export * from "./types";
+
+// How to build each known notifier; null means it can't run with the current config
+const notifierFactories: Record<AlertChannel, () => Notifier | null> = {
+  twitter: () => twitterNotifier,
+  webhook: () =>
+    WEBHOOK_ENDPOINTS.length > 0
+      ? createWebhookNotifier(WEBHOOK_ENDPOINTS)
+      : null,
+  discord: () =>
+    DISCORD_WEBHOOK_URL ? createDiscordNotifier(DISCORD_WEBHOOK_URL) : null,
+  telegram: () =>
+    TELEGRAM_BOT_TOKEN && TELEGRAM_CHAT_IDS.length > 0
+      ? createTelegramNotifier(TELEGRAM_BOT_TOKEN, TELEGRAM_CHAT_IDS)
+      : null,
+};
+
+let enabledNotifiers: Notifier[] | null = null;
+
+/**
+ * Returns the notifiers enabled in config, built on first use.
+ */
+export function getEnabledNotifiers(): Notifier[] {
+  if (enabledNotifiers) return enabledNotifiers;
+
+  enabledNotifiers = [];
+  for (const name of NOTIFIERS) {
+    const factory = notifierFactories[name as AlertChannel];
+    if (!factory) {
+      console.warn(`[notifiers] Unknown notifier "${name}". Ignored.`);
+      continue;
+    }
+    const notifier = factory();
+    if (!notifier) {
+      console.warn(
+        `[notifiers] Notifier "${name}" is enabled but not configured. Ignored.`
+      );
+      continue;
+    }
+    enabledNotifiers.push(notifier);
+  }
+
+  console.log(
+    `[notifiers] Enabled notifiers: ${enabledNotifiers.map((n) => n.name).join(", ") || "none"}.`
+  );
+  return enabledNotifiers;
+}
+
+/**
+ * Queue an alert on the enabled notifiers the alert rules route it to.
+ * Posting happens in the background through each channel's send queue,
+ * which skips channels that already delivered the alert (see sendQueue.ts).
+ * Throws if the alert couldn't be added to the outbox of any channel, so the
+ * caller can retry later.
+ */
+export async function dispatchAlert(alert: AlertPayload): Promise<void> {
+  const route = evaluateRules(alert);
+  if (!route.alert) {
+    console.log(
+      `[notifiers] ${alert.type} alert for hero #${alert.tokenId} dropped by rule "${route.rule ?? "default"}".`
+    );
+    return;
+  }
+
+  const notifiers = getEnabledNotifiers().filter(
+    (notifier) => !route.channels || route.channels.includes(notifier.name)
+  );
+  const routedAlert = { ...alert, template: route.template };
+
+  const failedChannels: string[] = [];
+
+  for (const notifier of notifiers) {
+    try {
+      await enqueueAlert(
+        notifier,
+        { ...alert.event, alertType: alert.type, channel: notifier.name },
+        routedAlert
+      );
+    } catch (err) {
+      console.error(
+        `[notifiers] Failed to queue ${alert.type} alert for hero #${alert.tokenId} on ${notifier.name}:`,
+        err
+      );
+      failedChannels.push(notifier.name);
+    }
+  }
+
+  if (failedChannels.length > 0) {
+    throw new Error(
+      `Alert ${alert.type} for hero #${alert.tokenId} could not be queued on: ${failedChannels.join(", ")}`
+    );
+  }
+}
@@ -0,0 +1,465 @@
+// path: src/notifiers/sendQueue.ts
+/**
+ * Outbound send queue, one per channel, persisted in the outbox collection.
+ * Alerts are queued by dispatchAlert and posted in the background, so a
+ * reveal wave or a mass death doesn't turn into one post per event as fast as
+ * the events come in:
+ *  - each channel has a token bucket (SEND_RATE_LIMITS), a post waits for a token;
+ *  - the most important alerts go first: Unique reveals, then watchlist alerts
+ *    and first-to-level level-ups, then the rest, oldest first;
+ *  - when more than SEND_COALESCE_THRESHOLD reveals (or deaths) are waiting,
+ *    they are all combined into a single post with a collage.
+ *
+ * The next post is picked once a token is available, so the backlog that
+ * built up in the meantime is taken into account. A post counts as delivered
+ * only once the notifier resolves, i.e. the channel confirmed it; it is then
+ * recorded in the alert ledger, and the post ID the channel returned is kept
+ * in the outbox. On channels that thread by hero, death and level-up alerts
+ * reply to the hero's latest post. Failed posts are retried with exponential
+ * backoff and marked "failed" after OUTBOX_MAX_ATTEMPTS; a notifier that
+ * can't attempt a post yet (DeferredError) puts the channel's posts off
+ * without counting an attempt. Posts are leased while in flight, so they are
+ * picked up again after a crash.
+ */
+
+import { abstract } from "viem/chains";
+import {
+  OUTBOX_MAX_ATTEMPTS,
+  SEND_COALESCE_THRESHOLD,
+  SEND_RATE_LIMITS,
+} from "../config";
+import {
+  isAlertSent,
+  recordAlertSent,
+  type AlertChannel,
+  type AlertKey,
+} from "../db/alert.model";
+import {
+  getHeroThreadPostId,
+  OutboxPost,
+  type IOutboxPost,
+} from "../db/outbox.model";
+import { createRateLimiter, type RateLimiter } from "../utils/rateLimiter";
+import { isDeferredError, type DeferredError } from "../utils/retry";
+import { isUnique } from "./format";
+import {
+  type AlertPayload,
+  type BurstPayload,
+  type DeliveryProgress,
+  type Notifier,
+} from "./types";
+
+const PROCESS_INTERVAL_MS = 10_000; // Check for due posts (retries, restarts) this often
+const LEASE_MS = 5 * 60_000; // In-flight posts are picked up again after this long
+const MAX_DUE_POSTS = 200; // Due posts considered when picking the next post
+const BASE_RETRY_DELAY_MS = 60_000; // First retry after a minute
+const MAX_RETRY_DELAY_MS = 60 * 60_000; // 1 hour cap
+
+type OutboxDoc = IOutboxPost & { _id: unknown };
+
+interface ChannelQueue {
+  notifier: Notifier;
+  limiter: RateLimiter | null;
+  isRunning: boolean;
+}
+
+const queues: Map<AlertChannel, ChannelQueue> = new Map();
+
+/**
+ * Lower goes first.
+ */
+function getPriority(alert: AlertPayload): number {
+  if (alert.type === "reveal" && isUnique(alert.metadata)) return 0;
+  if (alert.type === "watch-stake" || alert.type === "watch-death") return 1;
+  if (alert.type === "level-up" && alert.triggers.includes("first")) return 1;
+  return 2;
+}
+
+/**
+ * Only plain reveals and deaths are combined; alerts that get priority are
+ * always posted on their own.
+ */
+function isCoalescible(post: OutboxDoc): boolean {
+  return (
+    (post.alertType === "reveal" || post.alertType === "death") &&
+    post.priority === 2
+  );
+}
+
+function getRetryDelayMs(attempts: number): number {
+  const delay = BASE_RETRY_DELAY_MS * 2 ** (attempts - 1);
+  return Math.min(delay, MAX_RETRY_DELAY_MS);
+}
+
+function describe(key: AlertKey): string {
+  return `${key.alertType} ${key.txHash}:${key.logIndex}`;
+}
+
+function getQueue(notifier: Notifier): ChannelQueue {
+  let queue = queues.get(notifier.name);
+  if (!queue) {
+    const limit = SEND_RATE_LIMITS[notifier.name];
+    queue = {
+      notifier,
+      limiter: limit
+        ? createRateLimiter({
+            tokensPerInterval: limit.posts,
+            intervalMs: limit.minutes * 60_000,
+          })
+        : null,
+      isRunning: false,
+    };
+    queues.set(notifier.name, queue);
+  }
+  return queue;
+}
+
+/**
+ * Posts of a channel that can be sent now: pending posts whose next attempt
+ * is due, and in-flight posts whose lease expired. Best priority first.
+ */
+async function listDuePosts(channel: AlertChannel): Promise<OutboxDoc[]> {
+  const now = new Date();
+  return OutboxPost.find({
+    channel,
+    $or: [
+      { status: "pending", nextAttemptAt: { $lte: now } },
+      { status: "in-flight", lockedUntil: { $lte: now } },
+    ],
+  })
+    .sort({ priority: 1, createdAt: 1 })
+    .limit(MAX_DUE_POSTS)
+    .lean<OutboxDoc[]>();
+}
+
+/**
+ * Pick the next post: the first due post, or all the due posts of its type
+ * if there are enough of them to combine.
+ */
+function takeNext(due: OutboxDoc[]): OutboxDoc[] {
+  const [next] = due;
+  if (isCoalescible(next)) {
+    const sameType = due.filter(
+      (post) => isCoalescible(post) && post.alertType === next.alertType
+    );
+    if (sameType.length > SEND_COALESCE_THRESHOLD) return sameType;
+  }
+  return [next];
+}
+
+/**
+ * Lease posts for the time they're being sent. Returns the posts actually
+ * leased (another worker may have taken some).
+ */
+async function leasePosts(posts: OutboxDoc[]): Promise<OutboxDoc[]> {
+  const leased: OutboxDoc[] = [];
+  for (const post of posts) {
+    const now = new Date();
+    const result = await OutboxPost.updateOne(
+      {
+        _id: post._id,
+        $or: [
+          { status: "pending" },
+          { status: "in-flight", lockedUntil: { $lte: now } },
+        ],
+      },
+      {
+        $set: {
+          status: "in-flight",
+          lockedUntil: new Date(now.getTime() + LEASE_MS),
+        },
+      }
+    );
+    if (result.modifiedCount > 0) leased.push(post);
+  }
+  return leased;
+}
+
+async function completePosts(
+  posts: OutboxDoc[],
+  postId: string | null,
+  replyToPostId: string | null
+) {
+  await OutboxPost.updateMany(
+    { _id: { $in: posts.map((post) => post._id) } },
+    {
+      $set: {
+        status: "sent",
+        sentAt: new Date(),
+        lockedUntil: null,
+        lastError: null,
+        postId,
+        replyToPostId,
+        combined: posts.length > 1,
+      },
+    }
+  );
+  await Promise.all(posts.map((post) => recordAlertSent(post)));
+}
+
+/**
+ * Record a failed attempt on each post: schedule a retry with backoff, or
+ * mark the post as failed once it hits OUTBOX_MAX_ATTEMPTS.
+ */
+async function failPosts(
+  channel: AlertChannel,
+  posts: OutboxDoc[],
+  err: Error
+) {
+  for (const post of posts) {
+    const attempts = post.attempts + 1;
+    const isFinal = attempts >= OUTBOX_MAX_ATTEMPTS;
+    await OutboxPost.updateOne(
+      { _id: post._id },
+      {
+        $set: {
+          status: isFinal ? "failed" : "pending",
+          attempts,
+          nextAttemptAt: new Date(Date.now() + getRetryDelayMs(attempts)),
+          lockedUntil: null,
+          lastError: err.message,
+        },
+      }
+    );
+    if (isFinal) {
+      console.error(
+        `[sendQueue] ${channel}: ${describe(post)} failed ${attempts} times, giving up. Last error: ${err.message}`
+      );
+    }
+  }
+}
+
+/**
+ * Put posts back without counting an attempt, together with the channel's
+ * other posts due before `retryAt`: none of them can go out earlier.
+ */
+async function deferPosts(
+  channel: AlertChannel,
+  posts: OutboxDoc[],
+  err: DeferredError
+) {
+  await OutboxPost.updateMany(
+    {
+      $or: [
+        { _id: { $in: posts.map((post) => post._id) } },
+        { channel, status: "pending", nextAttemptAt: { $lt: err.retryAt } },
+      ],
+    },
+    {
+      $set: {
+        status: "pending",
+        nextAttemptAt: err.retryAt,
+        lockedUntil: null,
+        lastError: err.message,
+      },
+    }
+  );
+  console.warn(
+    `[sendQueue] ${channel}: posting put off until ${err.retryAt.toISOString()}: ${err.message}`
+  );
+}
+
+/**
+ * Delivery progress of a single or combined post, recorded on every outbox
+ * document it covers. A combined post resumes from the parts all of its
+ * posts got, i.e. only when it is the same combination.
+ */
+function getProgress(posts: OutboxDoc[]): DeliveryProgress {
+  const postIds = (posts[0].postIds ?? []).filter((id) =>
+    posts.every((post) => post.postIds?.includes(id))
+  );
+  return {
+    postIds,
+    recordPost: async (postId) => {
+      postIds.push(postId);
+      await OutboxPost.updateMany(
+        { _id: { $in: posts.map((post) => post._id) } },
+        { $addToSet: { postIds: postId } }
+      );
+    },
+  };
+}
+
+/**
+ * Send one single or combined post and record the outcome.
+ */
+async function post(queue: ChannelQueue, posts: OutboxDoc[]) {
+  const { notifier } = queue;
+  let postId: string | void;
+  let replyToPostId: string | null = null;
+
+  try {
+    if (posts.length === 1) {
+      const [single] = posts;
+      if (
+        notifier.threadsByHero &&
+        (single.alertType === "death" || single.alertType === "level-up")
+      ) {
+        replyToPostId = await getHeroThreadPostId(
+          notifier.name,
+          single.tokenId
+        );
+      }
+      postId = await notifier.send(
+        single.alert,
+        single.text,
+        getProgress(posts),
+        replyToPostId ?? undefined
+      );
+    } else {
+      const burst: BurstPayload = {
+        type: posts[0].alertType as BurstPayload["type"],
+        alerts: posts.map((post) => post.alert as BurstPayload["alerts"][0]),
+        since: posts[0].createdAt!,
+        until: posts[posts.length - 1].createdAt!,
+      };
+      postId = await notifier.sendBurst(burst, getProgress(posts));
+      console.log(
+        `[sendQueue] ${notifier.name}: combined ${posts.length} ${burst.type} alerts into one post.`
+      );
+    }
+  } catch (err) {
+    if (isDeferredError(err)) {
+      await deferPosts(notifier.name, posts, err);
+      return;
+    }
+    console.error(
+      `[sendQueue] ${notifier.name} failed to post ${posts.map(describe).join(", ")}:`,
+      err
+    );
+    await failPosts(notifier.name, posts, err as Error);
+    return;
+  }
+
+  await completePosts(posts, postId || null, replyToPostId);
+}
+
+/**
+ * Post everything due on a channel, one post per token.
+ */
+async function drain(queue: ChannelQueue) {
+  if (queue.isRunning) return;
+  queue.isRunning = true;
+  try {
+    while ((await listDuePosts(queue.notifier.name)).length > 0) {
+      if (queue.limiter) await queue.limiter.acquire();
+
+      // The backlog may have grown while waiting for the token
+      const due = await listDuePosts(queue.notifier.name);
+      if (due.length === 0) break;
+      const posts = await leasePosts(takeNext(due));
+      if (posts.length > 0) await post(queue, posts);
+    }
+  } catch (err) {
+    console.error(`[sendQueue] ${queue.notifier.name} queue error:`, err);
+  } finally {
+    queue.isRunning = false;
+  }
+}
+
+/**
+ * Queue an alert for a channel: the post is added to the outbox and sent in
+ * the background. Alerts already queued or posted on the channel are skipped.
+ */
+export async function enqueueAlert(
+  notifier: Notifier,
+  key: AlertKey,
+  alert: AlertPayload
+): Promise<void> {
+  if (await isAlertSent(key)) {
+    console.log(
+      `[sendQueue] ${notifier.name}: ${describe(key)} already posted.`
+    );
+    return;
+  }
+
+  try {
+    await OutboxPost.create({
+      chain: abstract.id,
+      txHash: key.txHash.toLowerCase(),
+      logIndex: key.logIndex,
+      alertType: key.alertType,
+      channel: key.channel,
+      tokenId: alert.tokenId,
+      alert,
+      text: notifier.render(alert),
+      mediaUrl: alert.metadata.image,
+      priority: getPriority(alert),
+    });
+  } catch (err: any) {
+    // Duplicate key: this alert is already in the outbox
+    if (err?.code === 11000) {
+      console.log(
+        `[sendQueue] ${notifier.name}: ${describe(key)} already queued.`
+      );
+      return;
+    }
+    throw err;
+  }
+
+  drain(getQueue(notifier));
+}
+
+/**
+ * Check every channel for due posts every PROCESS_INTERVAL_MS, to retry
+ * failed posts and resume the queue after a restart.
+ * This function should be called once at application startup.
+ */
+export function startSendQueue(notifiers: Notifier[]) {
+  const runCycle = () => {
+    for (const notifier of notifiers) drain(getQueue(notifier));
+  };
+
+  runCycle();
+  setInterval(runCycle, PROCESS_INTERVAL_MS);
+}
+
+/**
+ * Number of posts waiting (pending or in flight) and failed, per channel.
+ */
+export async function getOutboxCounts(): Promise<
+  Record<string, { waiting: number; failed: number }>
+> {
+  const rows = await OutboxPost.aggregate<{
+    _id: { channel: string; failed: boolean };
+    count: number;
+  }>([
+    { $match: { status: { $in: ["pending", "in-flight", "failed"] } } },
+    {
+      $group: {
+        _id: { channel: "$channel", failed: { $eq: ["$status", "failed"] } },
+        count: { $sum: 1 },
+      },
+    },
+  ]);
+
+  const counts: Record<string, { waiting: number; failed: number }> = {};
+  for (const { _id, count } of rows) {
+    counts[_id.channel] ??= { waiting: 0, failed: 0 };
+    counts[_id.channel][_id.failed ? "failed" : "waiting"] = count;
+  }
+  return counts;
+}
+
+/**
+ * Failed posts, most recent first.
+ */
+export async function listFailedPosts(): Promise<OutboxDoc[]> {
+  return OutboxPost.find({ status: "failed" })
+    .sort({ updatedAt: -1 })
+    .lean<OutboxDoc[]>();
+}
+
+/**
+ * Give failed posts another round of attempts, all of them or those of one
+ * hero. Returns how many posts were re-queued.
+ */
+export async function retryFailedPosts(tokenId?: number): Promise<number> {
+  const result = await OutboxPost.updateMany(
+    { status: "failed", ...(tokenId !== undefined ? { tokenId } : {}) },
+    {
+      $set: { status: "pending", attempts: 0, nextAttemptAt: new Date() },
+    }
+  );
+  return result.modifiedCount;
+}
@@ -0,0 +1,199 @@
+// path: src/notifiers/telegramNotifier.ts
+// Dev note: Notifier posting alerts through the Telegram Bot API, as a photo (PNG) or animation (GIF) with an HTML caption.
+
+import axios from "axios";
+import { TELEGRAM_MAX_RETRIES } from "../config";
+import {
+  getAlertMedia,
+  getBurstMedia,
+  type MediaData,
+} from "../media/alertMedia";
+import { createRateLimiter } from "../utils/rateLimiter";
+import { withRetry } from "../utils/retry";
+import { formatBurstText } from "./format";
+import {
+  type AlertPayload,
+  type BurstPayload,
+  type DeliveryProgress,
+  type DigestPayload,
+  type Notifier,
+} from "./types";
+import { renderAlertText } from "../templates/templates";
+
+// Telegram allows about 20 messages per minute in the same group
+const limiter = createRateLimiter({
+  tokensPerInterval: 20,
+  intervalMs: 60_000,
+});
+
+const MAX_CAPTION_LENGTH = 1024; // Telegram caption limit
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+/**
+ * 429 responses tell us how long to wait, in seconds.
+ */
+function getRetryAfterMs(err: any): number | undefined {
+  const retryAfter = err?.response?.data?.parameters?.retry_after;
+  return typeof retryAfter === "number" ? retryAfter * 1000 : undefined;
+}
+
+function isRetryable(err: any): boolean {
+  const status = err?.response?.status;
+  return status === undefined || status === 429 || status >= 500;
+}
+
+/**
+ * Axios errors carry the request URL, which holds the bot token. Only the
+ * status and Telegram's description are kept, so the error can be logged.
+ */
+function toTelegramError(err: any): Error {
+  const status = err?.response?.status;
+  const description = err?.response?.data?.description ?? err?.message;
+  return new Error(
+    `Telegram API request failed${status ? ` (${status})` : ""}: ${description}`
+  );
+}
+
+/**
+ * Create a notifier posting to every given chat with the given bot token.
+ * Each chat's message is recorded in the delivery progress as
+ * `<chatId>:<messageId>`, so a retry after a failure only posts to the chats
+ * that didn't get it.
+ */
+export function createTelegramNotifier(
+  botToken: string,
+  chatIds: string[]
+): Notifier {
+  const apiUrl = `https://api.telegram.org/bot${botToken}`;
+
+  /**
+   * Send a message to a chat and return its message ID.
+   */
+  async function sendToChat(
+    chatId: string,
+    caption: string,
+    media: MediaData | null,
+    fileName: string
+  ): Promise<string> {
+    return withRetry(
+      async () => {
+        await limiter.acquire();
+
+        try {
+          if (!media) {
+            const response = await axios.post(
+              `${apiUrl}/sendMessage`,
+              { chat_id: chatId, text: caption, parse_mode: "HTML" },
+              { timeout: 15_000 }
+            );
+            return String(response.data?.result?.message_id);
+          }
+
+          const isGif = media.mediaType === "image/gif";
+          const field = isGif ? "animation" : "photo";
+          const form = new FormData();
+          form.append("chat_id", chatId);
+          form.append("caption", caption);
+          form.append("parse_mode", "HTML");
+          form.append(
+            field,
+            new Blob([media.data], { type: media.mediaType }),
+            `${fileName}.${isGif ? "gif" : "png"}`
+          );
+          const response = await axios.post(
+            `${apiUrl}/${isGif ? "sendAnimation" : "sendPhoto"}`,
+            form,
+            { timeout: 30_000 }
+          );
+          return String(response.data?.result?.message_id);
+        } catch (err) {
+          const retryAfterMs = getRetryAfterMs(err);
+          if (retryAfterMs !== undefined) limiter.pauseFor(retryAfterMs);
+          throw err;
+        }
+      },
+      {
+        retries: TELEGRAM_MAX_RETRIES,
+        shouldRetry: isRetryable,
+        getDelayMs: getRetryAfterMs,
+        label: `telegramNotifier ${chatId}`,
+      }
+    ).catch((err) => {
+      throw toTelegramError(err);
+    });
+  }
+
+  /**
+   * Post to each chat that hasn't got the message yet. A failure fails the
+   * whole post so it's retried, on the remaining chats only.
+   */
+  async function sendToChats(
+    progress: DeliveryProgress,
+    sendTo: (chatId: string) => Promise<string>
+  ) {
+    for (const chatId of chatIds) {
+      if (progress.postIds.some((id) => id.startsWith(`${chatId}:`))) continue;
+      const messageId = await sendTo(chatId);
+      await progress.recordPost(`${chatId}:${messageId}`);
+    }
+  }
+
+  return {
+    name: "telegram",
+
+    render(alert: AlertPayload): string {
+      // Field values are escaped, the template itself may contain HTML tags
+      return renderAlertText(alert, "telegram", escapeHtml);
+    },
+
+    async send(
+      alert: AlertPayload,
+      caption: string,
+      progress: DeliveryProgress
+    ): Promise<void> {
+      const media = await getAlertMedia(alert);
+      await sendToChats(progress, (chatId) =>
+        sendToChat(chatId, caption, media, `hero-${alert.tokenId}`)
+      );
+
+      console.log(
+        `[telegramNotifier] ${alert.type} alert for hero #${alert.tokenId} posted to ${chatIds.length} chats.`
+      );
+    },
+
+    async sendBurst(
+      burst: BurstPayload,
+      progress: DeliveryProgress
+    ): Promise<void> {
+      const media = await getBurstMedia(burst);
+      const caption = escapeHtml(formatBurstText(burst, MAX_CAPTION_LENGTH));
+      await sendToChats(progress, (chatId) =>
+        sendToChat(chatId, caption, media, `${burst.type}-burst`)
+      );
+
+      console.log(
+        `[telegramNotifier] ${burst.alerts.length} ${burst.type} alerts posted as one to ${chatIds.length} chats.`
+      );
+    },
+
+    async sendDigest(
+      digest: DigestPayload,
+      progress: DeliveryProgress
+    ): Promise<void> {
+      const text = escapeHtml(digest.message);
+      await sendToChats(progress, (chatId) =>
+        sendToChat(chatId, text, null, `digest-${digest.period}`)
+      );
+
+      console.log(
+        `[telegramNotifier] ${digest.period} digest posted to ${chatIds.length} chats.`
+      );
+    },
+  };
+}
@@ -0,0 +1,98 @@
+// path: src/notifiers/twitterNotifier.ts
+// Dev note: Notifier posting alerts to X through the twitter client.
+
+import { getAlertMedia, getBurstMedia } from "../media/alertMedia";
+import {
+  tweetBurst,
+  tweetDeath,
+  tweetLevelUp,
+  tweetReveal,
+  tweetThreadPost,
+  tweetWatchAlert,
+} from "../twitter/twitter";
+import { renderAlertText } from "../templates/templates";
+import { formatBurstText } from "./format";
+import {
+  type AlertPayload,
+  type BurstPayload,
+  type DigestPayload,
+  type DeliveryProgress,
+  type Notifier,
+} from "./types";
+
+const MAX_TWEET_LENGTH = 280;
+
+/**
+ * Tweet an alert, as a reply to the hero's previous post when given one.
+ */
+async function tweetAlert(
+  alert: AlertPayload,
+  text: string,
+  replyToPostId?: string
+): Promise<string> {
+  const media = await getAlertMedia(alert);
+  switch (alert.type) {
+    case "reveal":
+      if (!media) throw new Error(`Hero #${alert.tokenId} has no image.`);
+      return tweetReveal(text, media);
+    case "death":
+      return tweetDeath(text, media ?? undefined, replyToPostId);
+    case "watch-stake":
+    case "watch-death":
+      return tweetWatchAlert(text, media ?? undefined);
+    case "level-up":
+      return tweetLevelUp(text, media ?? undefined, replyToPostId);
+  }
+}
+
+export const twitterNotifier: Notifier = {
+  name: "twitter",
+  threadsByHero: true,
+
+  render(alert: AlertPayload): string {
+    return renderAlertText(alert, "twitter");
+  },
+
+  async send(
+    alert: AlertPayload,
+    text: string,
+    progress: DeliveryProgress,
+    replyToPostId?: string
+  ): Promise<string> {
+    // Already posted, only marking it sent failed
+    if (progress.postIds.length > 0) return progress.postIds[0];
+
+    const tweetId = await tweetAlert(alert, text, replyToPostId);
+    await progress.recordPost(tweetId);
+    return tweetId;
+  },
+
+  async sendBurst(
+    burst: BurstPayload,
+    progress: DeliveryProgress
+  ): Promise<string> {
+    if (progress.postIds.length > 0) return progress.postIds[0];
+
+    const media = await getBurstMedia(burst);
+    const tweetId = await tweetBurst(
+      formatBurstText(burst, MAX_TWEET_LENGTH),
+      media ?? undefined
+    );
+    await progress.recordPost(tweetId);
+    return tweetId;
+  },
+
+  async sendDigest(
+    digest: DigestPayload,
+    progress: DeliveryProgress
+  ): Promise<void> {
+    // Each post replies to the previous one; posts already made are skipped
+    for (let i = progress.postIds.length; i < digest.thread.length; i++) {
+      const tweetId = await tweetThreadPost(
+        digest.thread[i],
+        progress.postIds[i - 1]
+      );
+      await progress.recordPost(tweetId);
+    }
+  },
+};
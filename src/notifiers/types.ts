@@ -0,0 +1,166 @@
+// path: src/notifiers/types.ts
+// Dev note: Typed alert payloads and the Notifier interface every alert channel implements.
+
+import { type AlertChannel, type EventRef } from "../db/alert.model";
+import { type RarestTrait } from "../db/hero.model";
+
+export interface HeroAttribute {
+  trait_type: string;
+  value: string | number;
+}
+
+/**
+ * Hero metadata as served by the metadata API.
+ */
+export interface HeroMetadata {
+  name?: string;
+  description?: string;
+  image?: string;
+  attributes?: HeroAttribute[];
+}
+
+export interface RevealAlert {
+  type: "reveal";
+  tokenId: number;
+  owner: string;
+  // Label of the owner's wallet, if it is a labelled wallet
+  ownerLabel?: string;
+  metadata: HeroMetadata;
+  // Position in the rarity ranking of revealed heroes, when known
+  rarityRank?: number;
+  rarityTotal?: number;
+  rarestTraits?: RarestTrait[];
+  // Named template set picked by the alert rules
+  template?: string;
+  event: EventRef;
+}
+
+export interface DeathAlert {
+  type: "death";
+  tokenId: number;
+  level?: number;
+  // Last wallet that staked the hero, if we saw it
+  owner?: string;
+  ownerLabel?: string;
+  metadata: HeroMetadata;
+  // When the hero was revealed, if we saw it, and when it died (block time)
+  revealedAt?: Date;
+  diedAt: Date;
+  // Named template set picked by the alert rules
+  template?: string;
+  event: EventRef;
+}
+
+/**
+ * A wallet on the watchlist staked a hero.
+ */
+export interface WatchStakeAlert {
+  type: "watch-stake";
+  tokenId: number;
+  owner: string;
+  ownerLabel: string;
+  metadata: HeroMetadata;
+  template?: string;
+  event: EventRef;
+}
+
+/**
+ * A hero last staked by a wallet on the watchlist died. Sent on top of the
+ * regular death alert.
+ */
+export interface WatchDeathAlert extends Omit<DeathAlert, "type"> {
+  type: "watch-death";
+  owner: string;
+  ownerLabel: string;
+}
+
+export type LevelUpTrigger = "first" | "unique" | "all";
+
+/**
+ * A hero reached a new level. There is no on-chain event behind it: `event`
+ * holds a synthetic `level:<tokenId>:<level>` key for the alert ledger.
+ */
+export interface LevelUpAlert {
+  type: "level-up";
+  tokenId: number;
+  level: number;
+  previousLevel: number;
+  // Why the level-up is alerted
+  triggers: LevelUpTrigger[];
+  // Wallet the hero is currently staked by, if known
+  owner?: string;
+  ownerLabel?: string;
+  metadata: HeroMetadata;
+  template?: string;
+  event: EventRef;
+}
+
+export type AlertPayload =
+  | RevealAlert
+  | DeathAlert
+  | WatchStakeAlert
+  | WatchDeathAlert
+  | LevelUpAlert;
+
+/**
+ * Queued alerts of one type combined into a single post because a channel's
+ * backlog grew too large, e.g. "7 heroes fell in the last 5m".
+ */
+export interface BurstPayload {
+  type: "reveal" | "death";
+  alerts: (RevealAlert | DeathAlert)[];
+  // When the oldest and the newest of the alerts were queued
+  since: Date;
+  until: Date;
+}
+
+export type DigestPeriod = "daily" | "weekly";
+
+/**
+ * A periodic digest, already rendered: `thread` is posted as a thread on X,
+ * `message` as a single message on the other channels.
+ */
+export interface DigestPayload {
+  period: DigestPeriod;
+  periodStart: Date;
+  periodEnd: Date;
+  thread: string[];
+  message: string;
+}
+
+/**
+ * What a channel already delivered of an alert, combined post or digest.
+ * Channels record each post, or each part of it (X threads, one message per
+ * Telegram chat), as soon as it is made, so a retry resumes where it stopped
+ * instead of posting the delivered parts again.
+ */
+export interface DeliveryProgress {
+  postIds: string[];
+  recordPost(postId: string): Promise<void>;
+}
+
+/**
+ * An alert channel. `send` must only resolve once the channel confirmed the
+ * post, and throw otherwise, so the outbox retries it. It resolves with the
+ * ID of the post when the channel gives one, which is kept in the outbox.
+ */
+export interface Notifier {
+  name: AlertChannel;
+  // Death and level-up alerts reply to the hero's previous post (its reveal, then its level-ups)
+  threadsByHero?: boolean;
+  // Text of an alert on this channel, rendered once when the post is queued
+  render(alert: AlertPayload): string;
+  send(
+    alert: AlertPayload,
+    text: string,
+    progress: DeliveryProgress,
+    replyToPostId?: string
+  ): Promise<string | void>;
+  // Must throw when the combined post could not be delivered, like `send`
+  sendBurst(
+    burst: BurstPayload,
+    progress: DeliveryProgress
+  ): Promise<string | void>;
+  // Must throw when the digest could not be delivered, like `send`
+  sendDigest(digest: DigestPayload, progress: DeliveryProgress): Promise<void>;
+}
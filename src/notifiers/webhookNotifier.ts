@@ -0,0 +1,173 @@
+// path: src/notifiers/webhookNotifier.ts
+// Dev note: Notifier POSTing alerts as JSON to generic webhook endpoints, so downstream bots can consume the same events.
+// Each request is signed with an HMAC-SHA256 of `${timestamp}.${body}` in the X-OCH-Signature header.
+
+import axios from "axios";
+import { createHmac } from "crypto";
+import {
+  WEBHOOK_MAX_RETRIES,
+  WEBHOOK_SECRET,
+  WEBHOOK_TIMEOUT_MS,
+  type WebhookEndpointConfig,
+} from "../config";
+import { withRetry } from "../utils/retry";
+import { formatBurstText } from "./format";
+import {
+  type AlertPayload,
+  type BurstPayload,
+  type DeliveryProgress,
+  type DigestPayload,
+  type Notifier,
+} from "./types";
+import { renderAlertText } from "../templates/templates";
+
+/**
+ * Sign a payload so receivers can check it came from us and is recent.
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: string,
+  body: string
+): string {
+  const digest = createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `sha256=${digest}`;
+}
+
+/**
+ * Network errors, timeouts, 429 and 5xx responses are worth retrying;
+ * other 4xx responses won't get better.
+ */
+function isRetryable(err: any): boolean {
+  const status = err?.response?.status;
+  return status === undefined || status === 429 || status >= 500;
+}
+
+async function postToEndpoint(
+  endpoint: WebhookEndpointConfig,
+  deliveryId: string,
+  body: string
+) {
+  const secret = endpoint.secret || WEBHOOK_SECRET;
+
+  await withRetry(
+    async () => {
+      // Sign each attempt with a fresh timestamp
+      const timestamp = Math.floor(Date.now() / 1000).toString();
+      const headers: Record<string, string> = {
+        "Content-Type": "application/json",
+        "X-OCH-Delivery": deliveryId,
+        "X-OCH-Timestamp": timestamp,
+      };
+      if (secret) {
+        headers["X-OCH-Signature"] = signWebhookPayload(
+          secret,
+          timestamp,
+          body
+        );
+      }
+
+      await axios.post(endpoint.url, body, {
+        headers,
+        timeout: endpoint.timeoutMs ?? WEBHOOK_TIMEOUT_MS,
+      });
+    },
+    {
+      retries: WEBHOOK_MAX_RETRIES,
+      shouldRetry: isRetryable,
+      label: `webhookNotifier ${endpoint.url}`,
+    }
+  );
+}
+
+/**
+ * Create a notifier delivering every alert, combined post and digest to each configured endpoint.
+ * Endpoints that accepted a delivery are recorded in the delivery progress, so
+ * when one endpoint fails only the failed ones get the retry. Delivery is
+ * still at-least-once, receivers should dedupe on the X-OCH-Delivery header.
+ */
+export function createWebhookNotifier(
+  endpoints: WebhookEndpointConfig[]
+): Notifier {
+  async function postToEndpoints(
+    deliveryId: string,
+    body: string,
+    progress: DeliveryProgress
+  ) {
+    const pending = endpoints.filter(
+      (endpoint) => !progress.postIds.includes(endpoint.url)
+    );
+    const results = await Promise.allSettled(
+      pending.map(async (endpoint) => {
+        await postToEndpoint(endpoint, deliveryId, body);
+        await progress.recordPost(endpoint.url);
+      })
+    );
+
+    const failures = results.filter(
+      (result): result is PromiseRejectedResult => result.status === "rejected"
+    );
+    if (failures.length > 0) {
+      throw new Error(
+        `Webhook delivery failed for ${failures.length}/${pending.length} endpoints: ` +
+          failures.map((f) => (f.reason as Error).message).join("; ")
+      );
+    }
+  }
+
+  return {
+    name: "webhook",
+
+    render(alert: AlertPayload): string {
+      return renderAlertText(alert, "webhook");
+    },
+
+    async send(
+      alert: AlertPayload,
+      text: string,
+      progress: DeliveryProgress
+    ): Promise<void> {
+      const deliveryId = `${alert.type}:${alert.event.txHash}:${alert.event.logIndex}`;
+      const body = JSON.stringify({
+        id: deliveryId,
+        type: alert.type,
+        sentAt: new Date().toISOString(),
+        text,
+        data: alert,
+      });
+      await postToEndpoints(deliveryId, body, progress);
+    },
+
+    async sendBurst(
+      burst: BurstPayload,
+      progress: DeliveryProgress
+    ): Promise<void> {
+      const [first] = burst.alerts;
+      const deliveryId = `burst:${burst.type}:${first.event.txHash}:${first.event.logIndex}:${burst.alerts.length}`;
+      const body = JSON.stringify({
+        id: deliveryId,
+        type: "burst",
+        sentAt: new Date().toISOString(),
+        text: formatBurstText(burst),
+        data: burst,
+      });
+      await postToEndpoints(deliveryId, body, progress);
+    },
+
+    async sendDigest(
+      digest: DigestPayload,
+      progress: DeliveryProgress
+    ): Promise<void> {
+      const deliveryId = `digest:${digest.period}:${digest.periodStart.toISOString()}`;
+      const body = JSON.stringify({
+        id: deliveryId,
+        type: "digest",
+        sentAt: new Date().toISOString(),
+        text: digest.message,
+        data: digest,
+      });
+      await postToEndpoints(deliveryId, body, progress);
+    },
+  };
+}
@@ -0,0 +1,212 @@
+// path: src/rarity/rarityEngine.ts
+/**
+ * Trait rarity over the revealed heroes in the Hero collection.
+ *
+ * A hero's rarity score is the sum, over its traits, of 1 / (frequency of
+ * that trait value among revealed heroes). Level is left out: it changes over
+ * time and says nothing about how rare a hero is. Ranks are ordered by score,
+ * highest first, with ties broken by token ID.
+ *
+ * Trait counts are kept in memory. A reveal updates the counts and scores the
+ * new hero right away; since every other score shifts a little with the
+ * counts, a full re-rank is scheduled shortly after (debounced, so a burst of
+ * reveals only re-ranks once).
+ */
+
+import { Hero, type RarestTrait } from "../db/hero.model";
+import { getTraits } from "../notifiers/format";
+import { type HeroAttribute } from "../notifiers/types";
+
+const RERANK_DEBOUNCE_MS = 60_000; // Wait for reveals to settle before re-ranking
+const RAREST_TRAITS_COUNT = 3; // Rarest traits kept per hero
+
+export interface HeroRarity {
+  score: number;
+  rank: number;
+  total: number;
+  rarestTraits: RarestTrait[];
+}
+
+// trait type -> trait value -> number of revealed heroes having it
+let traitCounts: Map<string, Map<string, number>> = new Map();
+let revealedCount = 0;
+let isLoaded = false;
+
+let rerankTimer: NodeJS.Timeout | null = null;
+let isReranking = false;
+
+function addToCounts(
+  counts: Map<string, Map<string, number>>,
+  attributes: HeroAttribute[]
+) {
+  for (const trait of getTraits({ attributes })) {
+    let values = counts.get(trait.trait_type);
+    if (!values) {
+      values = new Map();
+      counts.set(trait.trait_type, values);
+    }
+    const value = String(trait.value);
+    values.set(value, (values.get(value) || 0) + 1);
+  }
+}
+
+/**
+ * Score a hero's traits against the current counts.
+ */
+function scoreTraits(attributes: HeroAttribute[]): {
+  score: number;
+  rarestTraits: RarestTrait[];
+} {
+  const traits: RarestTrait[] = getTraits({ attributes }).map((trait) => {
+    const value = String(trait.value);
+    const count = traitCounts.get(trait.trait_type)?.get(value) || 1;
+    return { trait_type: trait.trait_type, value, count };
+  });
+
+  const score = traits.reduce(
+    (sum, trait) => sum + revealedCount / trait.count,
+    0
+  );
+  const rarestTraits = traits
+    .sort((a, b) => a.count - b.count)
+    .slice(0, RAREST_TRAITS_COUNT);
+  return { score, rarestTraits };
+}
+
+/**
+ * Recompute trait counts, scores and ranks for every revealed hero, and
+ * persist them on the Hero documents.
+ * @returns The number of heroes ranked.
+ */
+export async function recomputeRarity(): Promise<number> {
+  const heroes = await Hero.find(
+    { isRevealed: true },
+    { tokenId: 1, attributes: 1 }
+  ).lean();
+
+  const counts: Map<string, Map<string, number>> = new Map();
+  for (const hero of heroes) {
+    addToCounts(counts, hero.attributes || []);
+  }
+  traitCounts = counts;
+  revealedCount = heroes.length;
+  isLoaded = true;
+
+  const scored = heroes
+    .map((hero) => ({
+      tokenId: hero.tokenId,
+      ...scoreTraits(hero.attributes || []),
+    }))
+    .sort((a, b) => b.score - a.score || a.tokenId - b.tokenId);
+
+  if (scored.length > 0) {
+    await Hero.bulkWrite(
+      scored.map((hero, index) => ({
+        updateOne: {
+          filter: { tokenId: hero.tokenId },
+          update: {
+            $set: {
+              rarityScore: hero.score,
+              rarityRank: index + 1,
+              rarestTraits: hero.rarestTraits,
+            },
+          },
+        },
+      })),
+      { ordered: false }
+    );
+  }
+
+  console.log(`[rarityEngine] Ranked ${scored.length} revealed heroes.`);
+  return scored.length;
+}
+
+/**
+ * Re-rank every hero once reveals stop coming in for RERANK_DEBOUNCE_MS.
+ */
+function scheduleRerank() {
+  if (rerankTimer) clearTimeout(rerankTimer);
+  rerankTimer = setTimeout(async () => {
+    rerankTimer = null;
+    if (isReranking) {
+      scheduleRerank();
+      return;
+    }
+    isReranking = true;
+    try {
+      await recomputeRarity();
+    } catch (err) {
+      console.error("[rarityEngine] Error re-ranking heroes:", err);
+    } finally {
+      isReranking = false;
+    }
+  }, RERANK_DEBOUNCE_MS);
+}
+
+/**
+ * Account for a newly revealed hero: update the trait counts, score the hero
+ * and store its provisional rank. A hero that already has a score (e.g. its
+ * reveal job is retried) is already in the counts and isn't counted again.
+ */
+export async function recordRevealRarity(
+  tokenId: number,
+  attributes: HeroAttribute[]
+): Promise<HeroRarity> {
+  if (!isLoaded) await recomputeRarity();
+  // Scored heroes were counted by an earlier call or by the last re-rank
+  const isCounted = await Hero.exists({
+    tokenId,
+    rarityScore: { $ne: null },
+  });
+  if (!isCounted) {
+    addToCounts(traitCounts, attributes);
+    revealedCount++;
+  }
+
+  const { score, rarestTraits } = scoreTraits(attributes);
+  const higher = await Hero.countDocuments({
+    tokenId: { $ne: tokenId },
+    isRevealed: true,
+    rarityScore: { $gt: score },
+  });
+  const rank = higher + 1;
+
+  await Hero.updateOne(
+    { tokenId },
+    { $set: { rarityScore: score, rarityRank: rank, rarestTraits } }
+  );
+  scheduleRerank();
+
+  return { score, rank, total: revealedCount, rarestTraits };
+}
+
+/**
+ * Returns a hero's stored rarity, or null if it hasn't been ranked yet.
+ */
+export async function getHeroRarity(
+  tokenId: number
+): Promise<HeroRarity | null> {
+  const hero = await Hero.findOne(
+    { tokenId },
+    { rarityScore: 1, rarityRank: 1, rarestTraits: 1 }
+  ).lean();
+  if (!hero || hero.rarityRank === undefined) return null;
+
+  const total = isLoaded
+    ? revealedCount
+    : await Hero.countDocuments({ isRevealed: true });
+  return {
+    score: hero.rarityScore ?? 0,
+    rank: hero.rarityRank,
+    total,
+    rarestTraits: hero.rarestTraits || [],
+  };
+}
+
+/**
+ * Compute ranks for every revealed hero at startup.
+ * This function should be called once, after connecting to MongoDB.
+ */
+export async function startRarityEngine() {
+  await recomputeRarity();
+}
@@ -0,0 +1,249 @@
+// path: src/rules/alertRules.ts
+/**
+ * Declarative alert filtering and routing. The rules file (JSON, at
+ * ALERT_RULES_PATH) lists rules evaluated in order against each alert; the
+ * first rule whose conditions all match decides whether the alert is sent,
+ * on which channels and with which named template set. Alerts no rule
+ * matches get the file's `default` action, or are sent everywhere.
+ *
+ * Conditions test the alert's template fields (see buildTemplateContext), so
+ * anything a template can print a rule can test: `trait.Type`, `level`,
+ * `owner`, `rarityRank`... A bare trait name like `Type` works too.
+ *
+ * Example:
+ * {
+ *   "rules": [
+ *     { "name": "uniques", "alertTypes": ["reveal"],
+ *       "when": [{ "field": "Type", "op": "==", "value": "Unique" }],
+ *       "channels": ["twitter", "discord"], "template": "unique" },
+ *     { "name": "early deaths", "alertTypes": ["death"],
+ *       "when": [{ "field": "level", "op": "<", "value": 3 }],
+ *       "alert": false }
+ *   ]
+ * }
+ */
+
+import { readFileSync } from "fs";
+import { ALERT_RULES_PATH } from "../config";
+import {
+  ALERT_TYPES,
+  type AlertChannel,
+  type AlertType,
+} from "../db/alert.model";
+import { type AlertPayload } from "../notifiers/types";
+import {
+  buildTemplateContext,
+  getTemplates,
+  type TemplateContext,
+} from "../templates/templates";
+
+const OPERATORS = [
+  "==",
+  "!=",
+  ">",
+  ">=",
+  "<",
+  "<=",
+  "in",
+  "notIn",
+  "exists",
+  "missing",
+] as const;
+const CHANNELS: AlertChannel[] = ["twitter", "webhook", "discord", "telegram"];
+
+export type RuleOperator = (typeof OPERATORS)[number];
+type RuleValue = string | number;
+
+export interface RuleCondition {
+  field: string;
+  op: RuleOperator;
+  value?: RuleValue | RuleValue[];
+}
+
+export interface RuleAction {
+  // Set to false to drop the alert
+  alert?: boolean;
+  // Restrict the alert to these channels (among the enabled ones)
+  channels?: AlertChannel[];
+  // Named template set from the templates file
+  template?: string;
+}
+
+export interface AlertRule extends RuleAction {
+  name: string;
+  // Alert types the rule applies to, all when omitted
+  alertTypes?: AlertType[];
+  // Conditions that must all match, the rule always matches when omitted
+  when?: RuleCondition[];
+}
+
+export interface AlertRuleSet {
+  rules: AlertRule[];
+  default?: RuleAction;
+}
+
+/**
+ * What to do with an alert, and which rule decided it (null for the default).
+ */
+export interface AlertRoute extends RuleAction {
+  rule: string | null;
+  alert: boolean;
+}
+
+let ruleSet: AlertRuleSet | null = null;
+
+function fail(where: string, message: string): never {
+  throw new Error(`Invalid alert rule ${where}: ${message}`);
+}
+
+function validateAction(action: RuleAction, where: string) {
+  for (const channel of action.channels || []) {
+    if (!CHANNELS.includes(channel)) {
+      fail(where, `unknown channel "${channel}"`);
+    }
+  }
+  if (action.template && !getTemplates().named?.[action.template]) {
+    fail(where, `unknown template set "${action.template}"`);
+  }
+}
+
+/**
+ * Check a rule set's structure, throwing on the first problem found.
+ */
+export function validateRuleSet(rules: AlertRuleSet): AlertRuleSet {
+  if (!Array.isArray(rules?.rules)) {
+    throw new Error(`Invalid alert rules: "rules" must be an array.`);
+  }
+
+  rules.rules.forEach((rule, index) => {
+    const where = `#${index + 1}${rule.name ? ` (${rule.name})` : ""}`;
+    if (!rule.name) fail(where, "missing name");
+    for (const alertType of rule.alertTypes || []) {
+      if (!ALERT_TYPES.includes(alertType)) {
+        fail(where, `unknown alert type "${alertType}"`);
+      }
+    }
+    for (const condition of rule.when || []) {
+      if (!condition.field) fail(where, "condition without a field");
+      if (!OPERATORS.includes(condition.op)) {
+        fail(where, `unknown operator "${condition.op}"`);
+      }
+      const isList = condition.op === "in" || condition.op === "notIn";
+      if (isList && !Array.isArray(condition.value)) {
+        fail(where, `"${condition.op}" needs a list of values`);
+      }
+    }
+    validateAction(rule, where);
+  });
+  if (rules.default) validateAction(rules.default, "default");
+
+  return rules;
+}
+
+/**
+ * Read and validate a rules file.
+ */
+export function loadRuleSet(path: string): AlertRuleSet {
+  return validateRuleSet(JSON.parse(readFileSync(path, "utf8")));
+}
+
+/**
+ * Returns the configured rule set, loaded on first use. Without a rules
+ * file every alert is sent on every channel.
+ */
+export function getAlertRules(): AlertRuleSet {
+  if (ruleSet) return ruleSet;
+
+  if (ALERT_RULES_PATH) {
+    ruleSet = loadRuleSet(ALERT_RULES_PATH);
+    console.log(
+      `[alertRules] Loaded ${ruleSet.rules.length} rules from ${ALERT_RULES_PATH}.`
+    );
+  } else {
+    ruleSet = { rules: [] };
+  }
+  return ruleSet;
+}
+
+function getField(context: TemplateContext, field: string): string {
+  return context[field] ?? context[`trait.${field}`] ?? "";
+}
+
+/**
+ * Compare two values: numerically when both are numbers, otherwise as
+ * case-insensitive strings (so addresses match whatever their casing).
+ */
+function compare(actual: string, expected: RuleValue): number | null {
+  const a = Number(actual);
+  const b = Number(expected);
+  if (actual !== "" && !Number.isNaN(a) && !Number.isNaN(b)) return a - b;
+  return actual.toLowerCase() === String(expected).toLowerCase() ? 0 : null;
+}
+
+function matchesCondition(
+  context: TemplateContext,
+  condition: RuleCondition
+): boolean {
+  const actual = getField(context, condition.field);
+  const values = ([] as RuleValue[]).concat(condition.value ?? []);
+
+  switch (condition.op) {
+    case "exists":
+      return actual !== "";
+    case "missing":
+      return actual === "";
+    case "in":
+      return values.some((value) => compare(actual, value) === 0);
+    case "notIn":
+      return !values.some((value) => compare(actual, value) === 0);
+  }
+
+  if (actual === "") return false;
+  const diff = compare(actual, values[0]);
+  switch (condition.op) {
+    case "==":
+      return diff === 0;
+    case "!=":
+      return diff !== 0;
+    case ">":
+      return diff !== null && diff > 0;
+    case ">=":
+      return diff !== null && diff >= 0;
+    case "<":
+      return diff !== null && diff < 0;
+    case "<=":
+      return diff !== null && diff <= 0;
+  }
+  return false;
+}
+
+/**
+ * Decide what to do with an alert: the action of the first matching rule,
+ * or the rule set's default.
+ */
+export function evaluateRules(
+  alert: AlertPayload,
+  rules: AlertRuleSet = getAlertRules()
+): AlertRoute {
+  const context = buildTemplateContext(alert);
+
+  for (const rule of rules.rules) {
+    if (rule.alertTypes && !rule.alertTypes.includes(alert.type)) continue;
+    const conditions = rule.when || [];
+    if (!conditions.every((c) => matchesCondition(context, c))) continue;
+
+    return {
+      rule: rule.name,
+      alert: rule.alert ?? true,
+      channels: rule.channels,
+      template: rule.template,
+    };
+  }
+
+  return {
+    rule: null,
+    alert: rules.default?.alert ?? true,
+    channels: rules.default?.channels,
+    template: rules.default?.template,
+  };
+}
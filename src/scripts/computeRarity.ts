@@ -0,0 +1,43 @@
+// path: src/scripts/computeRarity.ts
+// Dev note: Recompute trait rarity scores and ranks for every revealed hero, then print the rarest ones.
+// Usage:
+//   npx tsx ./src/scripts/computeRarity.ts        -> recompute and show the top 10
+//   npx tsx ./src/scripts/computeRarity.ts 50     -> recompute and show the top 50
+
+import mongoose from "mongoose";
+import { connectMongoDB } from "../db";
+import { Hero } from "../db/hero.model";
+import { MONGO_URI } from "../config";
+import { recomputeRarity } from "../rarity/rarityEngine";
+
+async function main() {
+  const top = parseInt(process.argv[2] || "10", 10);
+
+  try {
+    await connectMongoDB(MONGO_URI);
+
+    const total = await recomputeRarity();
+    const heroes = await Hero.find(
+      { rarityRank: { $lte: top } },
+      { tokenId: 1, rarityRank: 1, rarityScore: 1, rarestTraits: 1 }
+    )
+      .sort({ rarityRank: 1 })
+      .lean();
+
+    console.log(`[computeRarity] Top ${heroes.length} of ${total} heroes:`);
+    for (const hero of heroes) {
+      const traits = (hero.rarestTraits || [])
+        .map((trait) => `${trait.trait_type}: ${trait.value} (${trait.count})`)
+        .join(", ");
+      console.log(
+        `  #${hero.rarityRank} hero #${hero.tokenId} score=${hero.rarityScore?.toFixed(2)} ${traits}`
+      );
+    }
+  } catch (e) {
+    console.error("[computeRarity] Error:", e);
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+main();
@@ -0,0 +1,53 @@
+// path: src/scripts/deadReveals.ts
+// Dev note: Inspect and re-queue reveal jobs that landed in the dead-letter list.
+// Usage:
+//   npx tsx ./src/scripts/deadReveals.ts                 -> list dead jobs
+//   npx tsx ./src/scripts/deadReveals.ts requeue <id>    -> re-queue a single token
+//   npx tsx ./src/scripts/deadReveals.ts requeue-all     -> re-queue every dead job
+
+import mongoose from "mongoose";
+import { connectMongoDB } from "../db";
+import { MONGO_URI } from "../config";
+import { listDeadReveals, requeueDeadReveal } from "../monitor/revealQueue";
+
+async function main() {
+  const [command, tokenId] = process.argv.slice(2);
+
+  try {
+    await connectMongoDB(MONGO_URI);
+
+    if (command === "requeue" && tokenId) {
+      const requeued = await requeueDeadReveal(tokenId);
+      console.log(
+        requeued
+          ? `[deadReveals] Token #${tokenId} re-queued.`
+          : `[deadReveals] No dead job found for token #${tokenId}.`
+      );
+      return;
+    }
+
+    const deadJobs = await listDeadReveals();
+
+    if (command === "requeue-all") {
+      for (const job of deadJobs) {
+        await requeueDeadReveal(job.tokenId.toString());
+      }
+      console.log(`[deadReveals] Re-queued ${deadJobs.length} dead jobs.`);
+      return;
+    }
+
+    console.log(`[deadReveals] ${deadJobs.length} dead jobs:`);
+    for (const job of deadJobs) {
+      console.log(
+        `  #${job.tokenId} owner=${job.owner} attempts=${job.retryCount} ` +
+          `lastError="${job.lastError}" updatedAt=${job.updatedAt?.toISOString()}`
+      );
+    }
+  } catch (e) {
+    console.error("[deadReveals] Error:", e);
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+main();
@@ -0,0 +1,54 @@
+// path: src/scripts/digests.ts
+// Dev note: Preview the digest of the last daily/weekly period without posting it, or list what the digest ledger
+// recorded as posted.
+// Usage:
+//   npx tsx ./src/scripts/digests.ts preview [daily|weekly]  -> print the thread and message of the last period
+//   npx tsx ./src/scripts/digests.ts list [limit]            -> latest digests in the ledger, per channel
+
+import mongoose from "mongoose";
+import { connectMongoDB } from "../db";
+import { MONGO_URI } from "../config";
+import { listDigests } from "../db/digest.model";
+import { collectDigestStats, getLastPeriod } from "../digest/digestStats";
+import { renderDigest } from "../digest/renderDigest";
+import { type DigestPeriod } from "../notifiers/types";
+
+async function main() {
+  const [command, arg] = process.argv.slice(2);
+
+  try {
+    await connectMongoDB(MONGO_URI);
+
+    if (command === "list") {
+      const digests = await listDigests(parseInt(arg || "20", 10));
+      for (const digest of digests) {
+        console.log(
+          `${digest.period} ${digest.periodStart.toISOString()} ${digest.channel}: ${digest.status}` +
+            (digest.postIds.length > 0
+              ? ` (posts: ${digest.postIds.join(", ")})`
+              : "")
+        );
+      }
+      return;
+    }
+
+    const period: DigestPeriod = arg === "weekly" ? "weekly" : "daily";
+    const { periodStart, periodEnd } = getLastPeriod(period);
+    const stats = await collectDigestStats(period, periodStart, periodEnd);
+    const { thread, message } = renderDigest(stats);
+
+    console.log(`[digests] Thread (${thread.length} posts):`);
+    thread.forEach((post, i) => {
+      console.log(`--- ${i + 1}/${thread.length} (${post.length} chars)`);
+      console.log(post);
+    });
+    console.log("[digests] Message:");
+    console.log(message);
+  } catch (e) {
+    console.error("[digests] Error:", e);
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+main();
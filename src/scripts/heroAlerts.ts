@@ -0,0 +1,49 @@
+// path: src/scripts/heroAlerts.ts
+// Dev note: Print every alert queued about a hero, per channel: its source event, whether it was posted, and the
+// ID of the post (with a link for X, where death and level-up posts reply to the hero's earlier ones).
+// Usage:
+//   npx tsx ./src/scripts/heroAlerts.ts <tokenId>
+
+import mongoose from "mongoose";
+import { connectMongoDB } from "../db";
+import { MONGO_URI } from "../config";
+import { listHeroPosts, type IOutboxPost } from "../db/outbox.model";
+
+function describePost(post: IOutboxPost): string {
+  if (!post.postId) return "";
+  const combined = post.combined ? " (combined post)" : "";
+  if (post.channel !== "twitter") return ` post=${post.postId}${combined}`;
+  return (
+    ` https://x.com/i/status/${post.postId}${combined}` +
+    (post.replyToPostId ? ` (reply to ${post.replyToPostId})` : "")
+  );
+}
+
+async function main() {
+  const tokenId = Number(process.argv[2]);
+  if (!Number.isInteger(tokenId)) {
+    console.error("Usage: npx tsx ./src/scripts/heroAlerts.ts <tokenId>");
+    process.exit(1);
+  }
+
+  try {
+    await connectMongoDB(MONGO_URI);
+
+    const posts = await listHeroPosts(tokenId);
+    console.log(`[heroAlerts] Hero #${tokenId}: ${posts.length} alerts.`);
+    for (const post of posts) {
+      const date = (post.sentAt ?? post.createdAt)?.toISOString();
+      console.log(
+        `  ${date} ${post.alertType} ${post.channel} ${post.status} ` +
+          `event=${post.txHash}:${post.logIndex}${describePost(post)}` +
+          (post.status === "failed" ? ` lastError="${post.lastError}"` : "")
+      );
+    }
+  } catch (e) {
+    console.error("[heroAlerts] Error:", e);
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+main();
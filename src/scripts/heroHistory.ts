@@ -0,0 +1,66 @@
+// path: src/scripts/heroHistory.ts
+// Dev note: Print a hero's metadata snapshots and what changed between them.
+// Usage:
+//   npx tsx ./src/scripts/heroHistory.ts <tokenId>            -> every version with its changes
+//   npx tsx ./src/scripts/heroHistory.ts <tokenId> <v1> <v2>  -> changes between two versions
+
+import mongoose from "mongoose";
+import { connectMongoDB } from "../db";
+import { MONGO_URI } from "../config";
+import { getSnapshotHistory } from "../utils/heroMetadata";
+import { describeDiff, diffMetadata } from "../utils/metadataDiff";
+
+async function main() {
+  const [tokenIdArg, fromArg, toArg] = process.argv.slice(2);
+  const tokenId = Number(tokenIdArg);
+  if (!Number.isInteger(tokenId)) {
+    console.error(
+      "Usage: npx tsx ./src/scripts/heroHistory.ts <tokenId> [fromVersion toVersion]"
+    );
+    process.exit(1);
+  }
+
+  try {
+    await connectMongoDB(MONGO_URI);
+
+    const history = await getSnapshotHistory(tokenId);
+    if (history.length === 0) {
+      console.log(`[heroHistory] No snapshots for hero #${tokenId}.`);
+      return;
+    }
+
+    if (fromArg && toArg) {
+      const from = history.find((e) => e.snapshot.version === Number(fromArg));
+      const to = history.find((e) => e.snapshot.version === Number(toArg));
+      if (!from || !to) {
+        console.log(
+          `[heroHistory] Hero #${tokenId} has versions 1 to ${history.length}.`
+        );
+        return;
+      }
+      const lines = describeDiff(diffMetadata(from.snapshot, to.snapshot));
+      console.log(
+        `[heroHistory] Hero #${tokenId} v${fromArg} -> v${toArg}: ${lines.length} changes`
+      );
+      for (const line of lines) console.log(`  ${line}`);
+      return;
+    }
+
+    console.log(
+      `[heroHistory] Hero #${tokenId} has ${history.length} versions:`
+    );
+    for (const { snapshot, diff } of history) {
+      console.log(
+        `v${snapshot.version} ${snapshot.capturedAt.toISOString()} (${snapshot.source})`
+      );
+      const lines = diff ? describeDiff(diff) : ["first snapshot"];
+      for (const line of lines) console.log(`  ${line}`);
+    }
+  } catch (e) {
+    console.error("[heroHistory] Error:", e);
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+main();
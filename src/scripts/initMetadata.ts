@@ -10,6 +10,7 @@ import axios from "axios";
 import { connectMongoDB } from "../db/index";
 import { Hero } from "../db/hero.model";
 import { MONGO_URI } from "../config";
+import { storeHeroMetadata } from "../utils/heroMetadata";
 import pLimit from "p-limit";
 
 const NFT_COLLECTION_BASE_URI = "https://api.onchainheroes.xyz/hero/";
@@ -79,21 +80,15 @@ async function fetchAndStoreMetadata(
     // If the image is the unrevealed URL, we consider it unrevealed
     const isRevealed = metadata.image !== UNREVEALED_URL;
 
-    await Hero.findOneAndUpdate(
-      { tokenId },
-      {
-        tokenId,
-        name: metadata.name,
-        description: metadata.description,
-        image: metadata.image,
-        attributes: metadata.attributes || [],
-        isRevealed,
-      },
-      { upsert: true }
+    const { version } = await storeHeroMetadata(
+      tokenId,
+      metadata,
+      "init-metadata",
+      { isRevealed }
     );
 
     console.log(
-      `[initMetadata] Token #${tokenId} upserted (revealed=${isRevealed}, attempt=${attempt}).`
+      `[initMetadata] Token #${tokenId} upserted (revealed=${isRevealed}, version=${version}, attempt=${attempt}).`
     );
   } catch (err: any) {
     console.error(
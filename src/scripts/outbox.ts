@@ -0,0 +1,49 @@
+// path: src/scripts/outbox.ts
+// Dev note: Inspect posts that ran out of attempts in the outbox and give them another round of retries.
+// The running bot picks re-queued posts up on its next send queue cycle.
+// Usage:
+//   npx tsx ./src/scripts/outbox.ts                 -> list failed posts
+//   npx tsx ./src/scripts/outbox.ts retry <id>      -> retry the failed posts of a single token
+//   npx tsx ./src/scripts/outbox.ts retry-all       -> retry every failed post
+
+import mongoose from "mongoose";
+import { connectMongoDB } from "../db";
+import { MONGO_URI } from "../config";
+import { listFailedPosts, retryFailedPosts } from "../notifiers/sendQueue";
+
+async function main() {
+  const [command, tokenId] = process.argv.slice(2);
+
+  try {
+    await connectMongoDB(MONGO_URI);
+
+    if (command === "retry" && tokenId) {
+      const retried = await retryFailedPosts(parseInt(tokenId, 10));
+      console.log(
+        `[outbox] Re-queued ${retried} failed posts for token #${tokenId}.`
+      );
+      return;
+    }
+
+    if (command === "retry-all") {
+      const retried = await retryFailedPosts();
+      console.log(`[outbox] Re-queued ${retried} failed posts.`);
+      return;
+    }
+
+    const failedPosts = await listFailedPosts();
+    console.log(`[outbox] ${failedPosts.length} failed posts:`);
+    for (const post of failedPosts) {
+      console.log(
+        `  #${post.tokenId} ${post.channel} ${post.alertType} ${post.txHash}:${post.logIndex} ` +
+          `attempts=${post.attempts} lastError="${post.lastError}" updatedAt=${post.updatedAt?.toISOString()}`
+      );
+    }
+  } catch (e) {
+    console.error("[outbox] Error:", e);
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+main();
@@ -0,0 +1,64 @@
+// path: src/scripts/stakingStats.ts
+// Dev note: Print staking stats from the staking ledger: total staked supply, biggest stakers and supply over time.
+// Usage:
+//   npx tsx ./src/scripts/stakingStats.ts              -> last 30 days, per day
+//   npx tsx ./src/scripts/stakingStats.ts 48 hour      -> last 48 hours, per hour
+//   npx tsx ./src/scripts/stakingStats.ts owner <address>  -> heroes staked by a wallet
+
+import mongoose from "mongoose";
+import { connectMongoDB } from "../db";
+import { MONGO_URI } from "../config";
+import { getStakedSupplyOverTime } from "../db/stakeEvent.model";
+import {
+  getStakedCount,
+  getStakedCountByOwner,
+  getStakedHeroes,
+} from "../db/stakePosition.model";
+
+const TOP_OWNERS = 10;
+
+async function main() {
+  const [first, second] = process.argv.slice(2);
+
+  try {
+    await connectMongoDB(MONGO_URI);
+
+    if (first === "owner" && second) {
+      const positions = await getStakedHeroes(second);
+      console.log(
+        `[stakingStats] ${second} has ${positions.length} heroes staked:`
+      );
+      for (const position of positions) {
+        console.log(
+          `  #${position.tokenId} since ${position.stakedSince?.toISOString()}`
+        );
+      }
+      return;
+    }
+
+    const unit = second === "hour" ? "hour" : "day";
+    const periods = parseInt(first || "30", 10);
+    const unitMs = unit === "hour" ? 3_600_000 : 86_400_000;
+    const since = new Date(Date.now() - periods * unitMs);
+
+    console.log(`[stakingStats] Heroes staked: ${await getStakedCount()}`);
+
+    console.log(`[stakingStats] Top ${TOP_OWNERS} stakers:`);
+    for (const { owner, staked } of await getStakedCountByOwner(TOP_OWNERS)) {
+      console.log(`  ${owner} ${staked}`);
+    }
+
+    console.log(`[stakingStats] Staked supply per ${unit}:`);
+    for (const point of await getStakedSupplyOverTime({ since, unit })) {
+      console.log(
+        `  ${point.periodStart.toISOString()} +${point.staked} -${point.unstaked} total=${point.totalStaked}`
+      );
+    }
+  } catch (e) {
+    console.error("[stakingStats] Error:", e);
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+main();
@@ -0,0 +1,105 @@
+// path: src/scripts/testRules.ts
+// Dev note: Dry-run an alert rule set against the heroes stored in the DB, to see which rule each hero would
+// hit before deploying the rules. Nothing is sent. Owners aren't stored on heroes, pass one to test owner rules.
+// Usage:
+//   npx tsx ./src/scripts/testRules.ts [rules.json] [--type reveal|death] [--owner 0x...] [--show 5]
+//   (the rules file defaults to ALERT_RULES_PATH)
+
+import mongoose from "mongoose";
+import { connectMongoDB } from "../db";
+import { Hero } from "../db/hero.model";
+import { MONGO_URI } from "../config";
+import { type AlertPayload } from "../notifiers/types";
+import { getLevel } from "../notifiers/format";
+import {
+  evaluateRules,
+  getAlertRules,
+  loadRuleSet,
+  type AlertRoute,
+} from "../rules/alertRules";
+
+const SAMPLE_EVENT = { txHash: "0x0", logIndex: 0 };
+
+function getOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function describeRoute(route: AlertRoute): string {
+  if (!route.alert) return "dropped";
+  const channels = route.channels ? route.channels.join(", ") : "all channels";
+  return route.template
+    ? `${channels}, template "${route.template}"`
+    : channels;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const rulesPath = args[0] && !args[0].startsWith("--") ? args[0] : null;
+  const alertType = getOption(args, "--type") === "death" ? "death" : "reveal";
+  const owner =
+    getOption(args, "--owner") || "0x0000000000000000000000000000000000000000";
+  const show = parseInt(getOption(args, "--show") || "5", 10);
+
+  try {
+    const rules = rulesPath ? loadRuleSet(rulesPath) : getAlertRules();
+    await connectMongoDB(MONGO_URI);
+
+    const heroes = await Hero.find({ isRevealed: true }).lean();
+    const results: Map<string, { route: AlertRoute; tokenIds: number[] }> =
+      new Map();
+
+    for (const hero of heroes) {
+      const metadata = {
+        name: hero.name,
+        description: hero.description,
+        image: hero.image,
+        attributes: hero.attributes || [],
+      };
+      const alert: AlertPayload =
+        alertType === "reveal"
+          ? {
+              type: "reveal",
+              tokenId: hero.tokenId,
+              owner,
+              metadata,
+              rarityRank: hero.rarityRank,
+              rarityTotal: heroes.length,
+              rarestTraits: hero.rarestTraits,
+              event: SAMPLE_EVENT,
+            }
+          : {
+              type: "death",
+              tokenId: hero.tokenId,
+              level: getLevel(metadata),
+              metadata,
+              revealedAt: hero.revealedAt,
+              diedAt: new Date(),
+              event: SAMPLE_EVENT,
+            };
+
+      const route = evaluateRules(alert, rules);
+      const key = route.rule ?? "(default)";
+      const entry = results.get(key) || { route, tokenIds: [] };
+      entry.tokenIds.push(hero.tokenId);
+      results.set(key, entry);
+    }
+
+    console.log(
+      `[testRules] ${heroes.length} revealed heroes tested as ${alertType} alerts:`
+    );
+    for (const [rule, { route, tokenIds }] of results) {
+      const sample = tokenIds.slice(0, show).map((id) => `#${id}`);
+      console.log(
+        `  ${rule}: ${tokenIds.length} heroes -> ${describeRoute(route)}` +
+          (sample.length ? ` (e.g. ${sample.join(", ")})` : "")
+      );
+    }
+  } catch (e) {
+    console.error("[testRules] Error:", e);
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+main();
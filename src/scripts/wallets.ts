@@ -0,0 +1,96 @@
+// path: src/scripts/wallets.ts
+// Dev note: Manage labelled wallets and the watchlist.
+// Usage:
+//   npx tsx ./src/scripts/wallets.ts                                    -> list wallets
+//   npx tsx ./src/scripts/wallets.ts add <address> <label> [category]   -> add or relabel a wallet
+//   npx tsx ./src/scripts/wallets.ts watch <address> [label]            -> put a wallet on the watchlist
+//   npx tsx ./src/scripts/wallets.ts unwatch <address>                  -> take a wallet off the watchlist
+//   npx tsx ./src/scripts/wallets.ts remove <address>                   -> delete a wallet
+
+import mongoose from "mongoose";
+import { isAddress } from "viem";
+import { connectMongoDB } from "../db";
+import { MONGO_URI } from "../config";
+import {
+  getWallet,
+  listWallets,
+  removeWallet,
+  upsertWallet,
+} from "../db/wallet.model";
+import { shortenAddress } from "../notifiers/format";
+
+const COMMANDS = ["add", "watch", "unwatch", "remove"];
+
+async function main() {
+  const [command, address, label, category] = process.argv.slice(2);
+
+  if (command && !COMMANDS.includes(command)) {
+    console.error(
+      "Usage: npx tsx ./src/scripts/wallets.ts [add|watch|unwatch|remove <address> ...]"
+    );
+    process.exit(1);
+  }
+  if (command && !(address && isAddress(address))) {
+    console.error(`[wallets] "${address}" is not a valid address.`);
+    return;
+  }
+
+  try {
+    await connectMongoDB(MONGO_URI);
+
+    switch (command) {
+      case "add": {
+        if (!label) {
+          console.error("[wallets] A label is required.");
+          return;
+        }
+        await upsertWallet(address, { label, category });
+        console.log(`[wallets] ${address} labelled "${label}".`);
+        return;
+      }
+      case "watch": {
+        const existing = await getWallet(address);
+        await upsertWallet(address, {
+          label: label || existing?.label || shortenAddress(address),
+          watch: true,
+        });
+        console.log(`[wallets] ${address} is now on the watchlist.`);
+        return;
+      }
+      case "unwatch": {
+        if (!(await getWallet(address))) {
+          console.log(`[wallets] ${address} is not a known wallet.`);
+          return;
+        }
+        await upsertWallet(address, { watch: false });
+        console.log(`[wallets] ${address} is no longer watched.`);
+        return;
+      }
+      case "remove": {
+        const removed = await removeWallet(address);
+        console.log(
+          removed
+            ? `[wallets] ${address} removed.`
+            : `[wallets] ${address} is not a known wallet.`
+        );
+        return;
+      }
+    }
+
+    const wallets = await listWallets();
+    console.log(`[wallets] ${wallets.length} wallets:`);
+    for (const wallet of wallets) {
+      console.log(
+        `  ${wallet.address} "${wallet.label}"` +
+          (wallet.category ? ` [${wallet.category}]` : "") +
+          (wallet.watch ? " (watched)" : "")
+      );
+    }
+  } catch (e) {
+    console.error("[wallets] Error:", e);
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+main();
@@ -0,0 +1,72 @@
+// path: src/templates/defaultTemplates.ts
+// Dev note: Built-in alert templates, used for any alert type/channel the templates file doesn't override.
+// Syntax: {{field}} placeholders, {{#field}}...{{/field}} shown when the field is set, {{^field}}...{{/field}} when it isn't.
+// An array of strings is a list of variants, one is picked at random for each post.
+
+import { type AlertTemplates } from "./templates";
+
+export const DEFAULT_TEMPLATES: AlertTemplates = {
+  reveal: {
+    default: [
+      "Hero #{{tokenId}} has been revealed!\nOwner: {{ownerName}}",
+      "Hero #{{tokenId}} has been revealed!{{#rarityRank}} Rarity rank #{{rarityRank}} of {{rarityTotal}}.{{/rarityRank}}\nOwner: {{ownerName}}",
+      "Hero #{{tokenId}} has been revealed!{{#type}} A {{type}} hero!{{/type}}\nOwner: {{ownerName}}",
+      "A new face joins the fight: Hero #{{tokenId}} has been revealed!\nOwner: {{ownerName}}",
+    ],
+    discord:
+      "Hero #{{tokenId}} has been revealed!{{#rarityRank}} Rarity rank #{{rarityRank}} of {{rarityTotal}}.{{/rarityRank}}",
+    telegram:
+      "<b>Hero #{{tokenId}} has been revealed!</b>\n{{name}}\n\n" +
+      "{{#level}}Level: {{level}}\n{{/level}}" +
+      "{{#rarityRank}}Rarity rank: #{{rarityRank}} of {{rarityTotal}}\n{{/rarityRank}}" +
+      "Owner: {{#ownerLabel}}{{ownerLabel}}{{/ownerLabel}}{{^ownerLabel}}<code>{{ownerShort}}</code>{{/ownerLabel}}\n" +
+      "{{traitList}}\n\n" +
+      '<a href="{{txLink}}">View transaction</a>',
+  },
+  death: {
+    default: [
+      "Hero #{{tokenId}} has met an untimely end{{#level}} at level {{level}}{{/level}}. Rest in peace.{{#image}}\n\nGone but not forgotten.{{/image}}",
+      "Hero #{{tokenId}} has fallen{{#level}} at level {{level}}{{/level}}. Rest in peace.{{#image}}\n\nGone but not forgotten.{{/image}}",
+    ],
+    discord:
+      "Hero #{{tokenId}} has met an untimely end{{#level}} at level {{level}}{{/level}}. Rest in peace.",
+    telegram:
+      "<b>Hero #{{tokenId}} has met an untimely end.</b> Rest in peace.\n{{name}}\n\n" +
+      "{{#level}}Level: {{level}}\n{{/level}}" +
+      "{{#lifespan}}Lived: {{lifespan}}\n{{/lifespan}}" +
+      "{{#ownerName}}Owner: {{ownerName}}\n{{/ownerName}}" +
+      "{{traitList}}\n\n" +
+      '<a href="{{txLink}}">View transaction</a>',
+  },
+  "watch-stake": {
+    default:
+      "Watched wallet {{ownerLabel}} just staked {{name}}{{#level}} (level {{level}}){{/level}}.\n{{txLink}}",
+    telegram:
+      "<b>Watched wallet {{ownerLabel}} just staked {{name}}</b>\n\n" +
+      "{{#level}}Level: {{level}}\n{{/level}}" +
+      "Wallet: <code>{{ownerShort}}</code>\n\n" +
+      '<a href="{{txLink}}">View transaction</a>',
+  },
+  "watch-death": {
+    default:
+      "Watched wallet {{ownerLabel}} lost Hero #{{tokenId}}{{#level}} at level {{level}}{{/level}}. Rest in peace.\n{{txLink}}",
+    telegram:
+      "<b>Watched wallet {{ownerLabel}} lost Hero #{{tokenId}}</b> Rest in peace.\n{{name}}\n\n" +
+      "{{#level}}Level: {{level}}\n{{/level}}" +
+      "{{#lifespan}}Lived: {{lifespan}}\n{{/lifespan}}" +
+      "Wallet: <code>{{ownerShort}}</code>\n\n" +
+      '<a href="{{txLink}}">View transaction</a>',
+  },
+  "level-up": {
+    default: [
+      "{{#firstToLevel}}First to the top! {{/firstToLevel}}{{name}} just reached level {{level}}{{#firstToLevel}}, the first hero to get there{{/firstToLevel}}!{{#type}} ({{type}}){{/type}}",
+      "Level up! {{name}} went from level {{previousLevel}} to {{level}}.{{#firstToLevel}} No hero has been this high before.{{/firstToLevel}}",
+    ],
+    telegram:
+      "<b>{{name}} reached level {{level}}!</b>\n" +
+      "{{#firstToLevel}}The first hero to get there.\n{{/firstToLevel}}\n" +
+      "Previous level: {{previousLevel}}\n" +
+      "{{#ownerName}}Owner: {{ownerName}}\n{{/ownerName}}" +
+      "{{traitList}}",
+  },
+};
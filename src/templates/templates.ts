@@ -0,0 +1,302 @@
+// path: src/templates/templates.ts
+// Dev note: Renders alert texts from per-alert-type, per-channel templates. Templates come from the built-in
+// defaults, overridden by the JSON file at ALERT_TEMPLATES_PATH when set.
+
+import { readFileSync } from "fs";
+import { ALERT_TEMPLATES_PATH } from "../config";
+import {
+  ALERT_TYPES,
+  type AlertChannel,
+  type AlertType,
+} from "../db/alert.model";
+import { type AlertPayload } from "../notifiers/types";
+import {
+  formatDuration,
+  getAlertLevel,
+  getOwnerName,
+  getTraits,
+  getTxUrl,
+  hasTransaction,
+  shortenAddress,
+} from "../notifiers/format";
+import { DEFAULT_TEMPLATES } from "./defaultTemplates";
+
+/**
+ * A template, or a list of variants to pick from at random.
+ */
+export type TemplateVariants = string | string[];
+
+/**
+ * Templates of one alert type by channel; "default" applies to channels
+ * without their own template.
+ */
+export type TemplateSet = Partial<
+  Record<AlertChannel | "default", TemplateVariants>
+>;
+
+export type AlertTemplates = Record<AlertType, TemplateSet> & {
+  // Extra template sets, picked by name by the alert rules
+  named?: Record<string, Partial<Record<AlertType, TemplateSet>>>;
+};
+
+export type TemplateContext = Record<string, string>;
+
+// Maximum text length per channel (X counts every link as 23 characters)
+const CHANNEL_LENGTH_LIMITS: Partial<Record<AlertChannel, number>> = {
+  twitter: 280,
+  discord: 4096,
+  telegram: 1024,
+};
+const TWITTER_LINK_LENGTH = 23;
+// Field value lengths tried, in turn, when no variant fits the limit
+const SHORTENED_VALUE_LENGTHS = [200, 100, 50, 20];
+
+const SECTION_PATTERN =
+  /\{\{([#^])\s*([^}]+?)\s*\}\}([\s\S]*?)\{\{\/\s*\2\s*\}\}/g;
+const PLACEHOLDER_PATTERN = /\{\{\s*([^#^/}][^}]*?)\s*\}\}/g;
+
+let templates: AlertTemplates | null = null;
+
+/**
+ * Check that every section is closed and no tag is left malformed.
+ * Throws with the offending template otherwise.
+ */
+function validateTemplate(template: string, where: string) {
+  const withoutSections = template.replace(SECTION_PATTERN, "$3");
+  if (/\{\{[#^/]/.test(withoutSections)) {
+    throw new Error(`Unbalanced section in template ${where}: ${template}`);
+  }
+}
+
+function toVariants(variants: TemplateVariants): string[] {
+  return Array.isArray(variants) ? variants : [variants];
+}
+
+/**
+ * Load the templates file (once) and merge it over the defaults.
+ */
+export function getTemplates(): AlertTemplates {
+  if (templates) return templates;
+
+  let overrides: Partial<AlertTemplates> = {};
+  if (ALERT_TEMPLATES_PATH) {
+    overrides = JSON.parse(readFileSync(ALERT_TEMPLATES_PATH, "utf8"));
+    console.log(`[templates] Loaded templates from ${ALERT_TEMPLATES_PATH}.`);
+  }
+
+  const merged = { named: overrides.named || {} } as AlertTemplates;
+  for (const alertType of ALERT_TYPES) {
+    merged[alertType] = {
+      ...DEFAULT_TEMPLATES[alertType],
+      ...overrides[alertType],
+    };
+  }
+
+  const sets: [string, TemplateSet | undefined][] = ALERT_TYPES.map(
+    (alertType) => [alertType, merged[alertType]]
+  );
+  for (const [name, named] of Object.entries(merged.named || {})) {
+    for (const alertType of ALERT_TYPES) {
+      sets.push([`${name}.${alertType}`, named[alertType]]);
+    }
+  }
+  for (const [where, set] of sets) {
+    for (const [channel, variants] of Object.entries(set || {})) {
+      for (const template of toVariants(variants as TemplateVariants)) {
+        validateTemplate(template, `${where}/${channel}`);
+      }
+    }
+  }
+
+  templates = merged;
+  return templates;
+}
+
+/**
+ * Render a template: fill placeholders and keep or drop conditional sections.
+ * Unknown or empty fields render as an empty string.
+ */
+export function renderTemplate(
+  template: string,
+  context: TemplateContext,
+  escape: (value: string) => string = (value) => value
+): string {
+  const withSections = template.replace(
+    SECTION_PATTERN,
+    (_, kind: string, field: string, body: string) => {
+      const isSet = Boolean(context[field]);
+      return (kind === "#") === isSet ? body : "";
+    }
+  );
+  return withSections.replace(PLACEHOLDER_PATTERN, (_, field: string) =>
+    escape(context[field] ?? "")
+  );
+}
+
+/**
+ * Build the placeholder values of an alert: every metadata field, every trait
+ * (as `trait.<Trait Name>`), plus level, type, owner and transaction shortcuts.
+ * `ownerName` is the owner's wallet label, or its shortened address.
+ */
+export function buildTemplateContext(alert: AlertPayload): TemplateContext {
+  const { metadata } = alert;
+  const level = getAlertLevel(alert);
+  const context: TemplateContext = {
+    alertType: alert.type,
+    tokenId: alert.tokenId.toString(),
+    name: metadata.name || `Hero #${alert.tokenId}`,
+    description: metadata.description || "",
+    image: metadata.image || "",
+    level: level !== undefined && !Number.isNaN(level) ? level.toString() : "",
+    txHash: alert.event.txHash,
+    txLink: hasTransaction(alert) ? getTxUrl(alert.event.txHash) : "",
+  };
+
+  for (const attr of metadata.attributes || []) {
+    context[`trait.${attr.trait_type}`] = String(attr.value);
+  }
+  context.type = context["trait.Type"] || "";
+  context.traitList = getTraits(metadata)
+    .map((attr) => `${attr.trait_type}: ${attr.value}`)
+    .join("\n");
+
+  if (alert.owner) {
+    context.owner = alert.owner;
+    context.ownerShort = shortenAddress(alert.owner);
+    context.ownerName = getOwnerName(alert.owner, alert.ownerLabel);
+    context.ownerLabel = alert.ownerLabel || "";
+  }
+  if (alert.type === "reveal") {
+    if (alert.rarityRank !== undefined) {
+      context.rarityRank = alert.rarityRank.toString();
+      context.rarityTotal = alert.rarityTotal?.toLocaleString("en-US") || "";
+    }
+    const [rarest] = alert.rarestTraits || [];
+    if (rarest) {
+      context.rarestTrait = `${rarest.trait_type}: ${rarest.value}`;
+    }
+  }
+  if (alert.type === "level-up") {
+    context.previousLevel = alert.previousLevel.toString();
+    context.firstToLevel = alert.triggers.includes("first") ? "true" : "";
+    context.triggers = alert.triggers.join(",");
+  }
+  if ("diedAt" in alert && alert.revealedAt) {
+    context.lifespan = formatDuration(
+      alert.diedAt.getTime() - alert.revealedAt.getTime()
+    );
+  }
+
+  return context;
+}
+
+/**
+ * Length of a text as the channel counts it.
+ */
+function measureLength(text: string, channel: AlertChannel): number {
+  if (channel === "twitter") {
+    return text
+      .replace(/https?:\/\/\S+/g, "x".repeat(TWITTER_LINK_LENGTH))
+      .trim().length;
+  }
+  return text.trim().length;
+}
+
+/**
+ * Cut every field value longer than maxLength, links excepted.
+ */
+function shortenValues(
+  context: TemplateContext,
+  maxLength: number
+): TemplateContext {
+  return Object.fromEntries(
+    Object.entries(context).map(([key, value]) =>
+      value.length > maxLength && !/^https?:\/\//.test(value)
+        ? [key, `${value.slice(0, maxLength - 1)}…`]
+        : [key, value]
+    )
+  );
+}
+
+/**
+ * Cut a rendered text as a last resort. Markup (Telegram HTML) is dropped
+ * first, so the cut can't leave a tag or an entity half open.
+ */
+function cutText(text: string, limit: number, hasMarkup: boolean): string {
+  const plain = hasMarkup ? text.replace(/<[^>]*>/g, "") : text;
+  if (plain.length <= limit) return plain;
+  const cut = plain.slice(0, limit - 1);
+  return `${hasMarkup ? cut.replace(/&[#a-z0-9]*$/i, "") : cut}…`;
+}
+
+function shuffle<T>(items: T[]): T[] {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+}
+
+/**
+ * Find the templates of an alert for a channel: from the named set the alert
+ * rules picked if it has some for this alert type, then the regular ones.
+ */
+function getVariants(
+  alert: AlertPayload,
+  channel: AlertChannel
+): TemplateVariants | undefined {
+  const templates = getTemplates();
+  const named = alert.template
+    ? templates.named?.[alert.template]?.[alert.type]
+    : undefined;
+  const set = templates[alert.type];
+  return named?.[channel] ?? named?.default ?? set[channel] ?? set.default;
+}
+
+/**
+ * Render the text of an alert for a channel. A random variant is picked among
+ * those fitting the channel's length limit. If none fits, the field values
+ * (trait list, description...) are shortened until one does, and only then
+ * is the text itself cut.
+ */
+export function renderAlertText(
+  alert: AlertPayload,
+  channel: AlertChannel,
+  escape?: (value: string) => string
+): string {
+  const variants = getVariants(alert, channel);
+  if (!variants) {
+    throw new Error(`No template for ${alert.type}/${channel}.`);
+  }
+
+  const context = buildTemplateContext(alert);
+  const limit = CHANNEL_LENGTH_LIMITS[channel];
+  const templates = shuffle(toVariants(variants));
+  const render = (values: TemplateContext) =>
+    templates.map((template) =>
+      renderTemplate(template, values, escape).trim()
+    );
+
+  const rendered = render(context);
+  if (limit === undefined) return rendered[0];
+
+  const fits = (text: string) => measureLength(text, channel) <= limit;
+  const fitting = rendered.find(fits);
+  if (fitting !== undefined) return fitting;
+
+  for (const maxLength of SHORTENED_VALUE_LENGTHS) {
+    const shortened = render(shortenValues(context, maxLength)).find(fits);
+    if (shortened !== undefined) {
+      console.warn(
+        `[templates] No ${alert.type}/${channel} variant fits in ${limit} characters. Shortened fields to ${maxLength} characters.`
+      );
+      return shortened;
+    }
+  }
+
+  console.warn(
+    `[templates] No ${alert.type}/${channel} variant fits in ${limit} characters. Truncating.`
+  );
+  return cutText(rendered[0], limit, escape !== undefined);
+}
@@ -1,34 +1,156 @@
 // path: src/twitter/twitter.ts
-// Dev note: Handles the Twitter client initialization and posting tweets with media.
+// Dev note: Handles the Twitter client initialization and posting tweets with media. Posting functions throw unless
+// X confirmed the tweet, and return its ID. The session cookies are stored in Mongo and restored on startup; when X
+// rejects the session, it is dropped and the client logs in again, at most once per backoff delay.
 
 import { Scraper } from "agent-twitter-client";
 import axios from "axios";
 import { TWITTER_EMAIL, TWITTER_PASSWORD, TWITTER_USERNAME } from "../config";
+import {
+  clearSessionCookies,
+  getTwitterSession,
+  recordLoginAttempt,
+  saveSessionCookies,
+} from "../db/twitterSession.model";
+import { createDeferredError } from "../utils/retry";
 import sharp from "sharp";
 
+const MIN_LOGIN_INTERVAL_MS = 15 * 60_000; // Never log in more often than this
+const MAX_LOGIN_INTERVAL_MS = 6 * 60 * 60_000; // Backoff cap after failed logins
+
+// X error codes meaning the session is no longer valid
+// (32: could not authenticate, 89: invalid token, 215: bad authentication data, 353: CSRF mismatch)
+const SESSION_ERROR_CODES = [32, 89, 215, 353];
+// X error code for a reply to a tweet that was deleted or is no longer visible
+const REPLY_TARGET_GONE_CODE = 385;
+
+// Session cookie, as kept in the Scraper's cookie jar
+type TwitterCookie = Awaited<ReturnType<Scraper["getCookies"]>>[number];
+
+// Error listed by X in the body of a rejected request
+interface TwitterApiError {
+  code: number;
+  message: string;
+}
+
 const twitterClient = new Scraper();
 let isInitialized = false;
+let pendingInit: Promise<void> | null = null;
 
 /**
- * Initializes the Twitter client by logging in.
+ * Delay before the next login: MIN_LOGIN_INTERVAL_MS after a successful
+ * login, doubling with each consecutive failure.
  */
-export async function initTwitterClient(): Promise<void> {
-  if (isInitialized) {
-    console.log("[Twitter] Already initialized.");
+function getLoginDelayMs(failedLogins: number): number {
+  return Math.min(
+    MIN_LOGIN_INTERVAL_MS * 2 ** failedLogins,
+    MAX_LOGIN_INTERVAL_MS
+  );
+}
+
+function isSessionError(message: string): boolean {
+  return (
+    /could not authenticate|not logged in|unauthorized|bad authentication/i.test(
+      message
+    ) ||
+    SESSION_ERROR_CODES.some((code) =>
+      new RegExp(`"code"\\s*:\\s*${code}\\b`).test(message)
+    )
+  );
+}
+
+async function saveCookies() {
+  const cookies = await twitterClient.getCookies();
+  await saveSessionCookies(
+    TWITTER_USERNAME,
+    cookies.map((cookie: TwitterCookie) => cookie.toString())
+  );
+}
+
+/**
+ * Resume the stored session, if X still accepts it. The stored cookies are
+ * kept either way: the client can't tell a rejected session from a network
+ * error here, and a successful login replaces them. They are only deleted
+ * when a post is rejected for auth reasons (see expireSession).
+ */
+async function restoreSession(cookies: string[]): Promise<boolean> {
+  await twitterClient.setCookies(cookies);
+  if (await twitterClient.isLoggedIn()) return true;
+  // Log in from a clean cookie jar
+  await twitterClient.clearCookies();
+  return false;
+}
+
+async function startSession(): Promise<void> {
+  const session = await getTwitterSession(TWITTER_USERNAME);
+  if (session?.cookies.length && (await restoreSession(session.cookies))) {
+    isInitialized = true;
+    console.log("[Twitter] Stored session restored.");
     return;
   }
+
+  if (session?.lastLoginAt) {
+    const nextLoginAt =
+      session.lastLoginAt.getTime() + getLoginDelayMs(session.failedLogins);
+    if (Date.now() < nextLoginAt) {
+      throw createDeferredError(
+        `[Twitter] Login throttled after ${session.failedLogins} failed attempts, next attempt at ${new Date(nextLoginAt).toISOString()}.`,
+        new Date(nextLoginAt)
+      );
+    }
+  }
+
   try {
     await twitterClient.login(
       TWITTER_USERNAME,
       TWITTER_PASSWORD,
       TWITTER_EMAIL
     );
-    isInitialized = true;
-    console.log("[Twitter] Login successful.");
   } catch (error) {
     console.error("[Twitter] Login error:", error);
+    await recordLoginAttempt(TWITTER_USERNAME, (error as Error).message);
     throw error;
   }
+
+  await recordLoginAttempt(TWITTER_USERNAME);
+  await saveCookies();
+  isInitialized = true;
+  console.log("[Twitter] Login successful.");
+}
+
+/**
+ * Initializes the Twitter client: restores the stored session, or logs in
+ * if there is none or X rejects it. Logins are throttled: when the last one
+ * was too recent, this throws a DeferredError without trying.
+ */
+export async function initTwitterClient(): Promise<void> {
+  if (isInitialized) {
+    console.log("[Twitter] Already initialized.");
+    return;
+  }
+  pendingInit ??= startSession().finally(() => {
+    pendingInit = null;
+  });
+  return pendingInit;
+}
+
+/**
+ * Drop a session X rejected and log in again in the background (throttled).
+ */
+async function expireSession(label: string, reason: string) {
+  console.warn(
+    `[${label}] Session rejected by X (${reason}), logging in again.`
+  );
+  isInitialized = false;
+  try {
+    await twitterClient.clearCookies();
+    await clearSessionCookies(TWITTER_USERNAME);
+  } catch (error) {
+    console.error("[Twitter] Failed to clear the session:", error);
+  }
+  initTwitterClient().catch((error) =>
+    console.error("[Twitter] Re-login failed:", (error as Error).message)
+  );
 }
 
 /**
@@ -65,70 +187,168 @@ export async function getMediaDataFromUrl(
 }
 
 /**
- * Sends a tweet with an attached image.
+ * Returns the ID of the tweet created by a CreateTweet request, from its
+ * JSON response body.
  */
-export async function tweetReveal(
-  tokenId: string,
-  owner: string,
-  imageUrl: string
-): Promise<void> {
-  try {
-    if (!isInitialized) {
-      await initTwitterClient();
-    }
-    const mimeType = imageUrl.toLowerCase().endsWith(".gif")
-      ? "image/gif"
-      : "image/png";
-
-    const mediaDataObj = await getMediaDataFromUrl(imageUrl, mimeType);
-    const tweetText = `Hero #${tokenId} has been revealed!\nOwner: ${owner}`;
+export function extractTweetId(body: any): string | undefined {
+  return body?.data?.create_tweet?.tweet_results?.result?.rest_id;
+}
 
-    console.log(`[tweetReveal] Sending tweet: ${tweetText}`);
-    await twitterClient.sendTweet(tweetText, undefined, [mediaDataObj]);
+/**
+ * Post a tweet and return its ID once X confirmed it. Throws otherwise,
+ * including when X answers with errors in an otherwise successful response.
+ */
+async function postTweet(
+  label: string,
+  tweetText: string,
+  mediaDataObj?: { data: Buffer; mediaType: string },
+  replyToTweetId?: string
+): Promise<string> {
+  if (!isInitialized) {
+    await initTwitterClient();
+  }
 
-    console.log("[tweetReveal] Tweet sent successfully.");
+  console.log(`[${label}] Sending tweet: ${tweetText}`);
+  let response: Response;
+  try {
+    response = await twitterClient.sendTweet(
+      tweetText,
+      replyToTweetId,
+      mediaDataObj ? [mediaDataObj] : undefined
+    );
   } catch (error) {
-    console.error("[tweetReveal] Error sending tweet:", error);
+    const message = (error as Error).message ?? String(error);
+    if (isSessionError(message)) await expireSession(label, message);
+    throw error;
+  }
+
+  const body = await response.json().catch(() => null);
+  const tweetId = extractTweetId(body);
+  if (!tweetId) {
+    const errors: TwitterApiError[] = body?.errors ?? [];
+    const reason =
+      errors.map((error) => error.message).join("; ") ||
+      `HTTP ${response.status}`;
+    if (
+      replyToTweetId &&
+      errors.some((error) => error.code === REPLY_TARGET_GONE_CODE)
+    ) {
+      console.warn(
+        `[${label}] Tweet ${replyToTweetId} is gone, posting without replying to it.`
+      );
+      return postTweet(label, tweetText, mediaDataObj);
+    }
+    if (
+      response.status === 401 ||
+      errors.some((error) => SESSION_ERROR_CODES.includes(error.code))
+    ) {
+      await expireSession(label, reason);
+    }
+    throw new Error(`[${label}] Tweet not confirmed: ${reason}`);
   }
+
+  // X refreshes some cookies as we go, keep the stored session current
+  await saveCookies().catch((error) =>
+    console.warn("[Twitter] Failed to store the session cookies:", error)
+  );
+  return tweetId;
 }
 
 /**
- * Tweet about a hero's death. Optionally attach an image if provided.
+ * Sends a reveal tweet with the given text and media attached.
+ * @returns the ID of the new tweet.
  */
-export async function tweetDeath(
-  tokenId: string,
-  imageUrl?: string,
-  level?: number
-): Promise<void> {
-  try {
-    if (!isInitialized) {
-      await initTwitterClient();
-    }
+export async function tweetReveal(
+  tweetText: string,
+  mediaDataObj: { data: Buffer; mediaType: string }
+): Promise<string> {
+  const tweetId = await postTweet("tweetReveal", tweetText, mediaDataObj);
+  console.log(`[tweetReveal] Tweet ${tweetId} sent successfully.`);
+  return tweetId;
+}
 
-    // Fallback tweet text if no image
-    let tweetText = `Hero #${tokenId} has met an untimely end at level ${level}. Rest in peace.`;
+/**
+ * Tweet about a hero's death. Optionally attach media if provided, and reply
+ * to the hero's earlier tweets.
+ * @returns the ID of the new tweet.
+ */
+export async function tweetDeath(
+  tweetText: string,
+  mediaDataObj?: { data: Buffer; mediaType: string },
+  replyToTweetId?: string
+): Promise<string> {
+  const tweetId = await postTweet(
+    "tweetDeath",
+    tweetText,
+    mediaDataObj,
+    replyToTweetId
+  );
+  console.log(`[tweetDeath] Death tweet ${tweetId} sent successfully.`);
+  return tweetId;
+}
 
-    let mediaDataObj: { data: Buffer; mediaType: string } | undefined;
+/**
+ * Tweet a watchlist alert. Optionally attach media if provided.
+ * @returns the ID of the new tweet.
+ */
+export async function tweetWatchAlert(
+  tweetText: string,
+  mediaDataObj?: { data: Buffer; mediaType: string }
+): Promise<string> {
+  const tweetId = await postTweet("tweetWatchAlert", tweetText, mediaDataObj);
+  console.log(
+    `[tweetWatchAlert] Watchlist tweet ${tweetId} sent successfully.`
+  );
+  return tweetId;
+}
 
-    if (imageUrl) {
-      const urlLower = imageUrl.toLowerCase();
-      let mimeType = "image/png";
-      if (urlLower.endsWith(".gif")) {
-        mimeType = "image/gif";
-      }
-      mediaDataObj = await getMediaDataFromUrl(imageUrl, mimeType, true);
-      tweetText += `\n\nGone but not forgotten.`;
-    }
+/**
+ * Tweet a level-up alert. Optionally attach media if provided, and reply to
+ * the hero's earlier tweets.
+ * @returns the ID of the new tweet.
+ */
+export async function tweetLevelUp(
+  tweetText: string,
+  mediaDataObj?: { data: Buffer; mediaType: string },
+  replyToTweetId?: string
+): Promise<string> {
+  const tweetId = await postTweet(
+    "tweetLevelUp",
+    tweetText,
+    mediaDataObj,
+    replyToTweetId
+  );
+  console.log(`[tweetLevelUp] Level-up tweet ${tweetId} sent successfully.`);
+  return tweetId;
+}
 
-    console.log(`[tweetDeath] Sending tweet: ${tweetText}`);
-    if (mediaDataObj) {
-      await twitterClient.sendTweet(tweetText, undefined, [mediaDataObj]);
-    } else {
-      await twitterClient.sendTweet(tweetText);
-    }
+/**
+ * Tweet a combined post for a burst of alerts. Optionally attach media if provided.
+ * @returns the ID of the new tweet.
+ */
+export async function tweetBurst(
+  tweetText: string,
+  mediaDataObj?: { data: Buffer; mediaType: string }
+): Promise<string> {
+  const tweetId = await postTweet("tweetBurst", tweetText, mediaDataObj);
+  console.log(`[tweetBurst] Combined tweet ${tweetId} sent successfully.`);
+  return tweetId;
+}
 
-    console.log("[tweetDeath] Death tweet sent successfully.");
-  } catch (error) {
-    console.error("[tweetDeath] Error sending death tweet:", error);
-  }
+/**
+ * Tweet one post of a thread, in reply to the previous one if given.
+ * @returns the ID of the new tweet.
+ */
+export async function tweetThreadPost(
+  tweetText: string,
+  replyToTweetId?: string
+): Promise<string> {
+  const tweetId = await postTweet(
+    "tweetThreadPost",
+    tweetText,
+    undefined,
+    replyToTweetId
+  );
+  console.log(`[tweetThreadPost] Thread tweet ${tweetId} sent successfully.`);
+  return tweetId;
 }
@@ -3,8 +3,9 @@
 // updates the DB (isRevealed = true) if needed, and returns a boolean telling you if it was revealed.
 
 import axios from "axios";
-import { Hero } from "../db/hero.model";
 import { NFT_COLLECTION_BASE_URI } from "../config";
+import { storeHeroMetadata } from "./heroMetadata";
+import { describeDiff } from "./metadataDiff";
 
 export async function detectAndStoreReveal(
   tokenIdStr: string
@@ -30,24 +31,14 @@ export async function detectAndStoreReveal(
       return false;
     }
 
-    // If it's revealed, mark it in DB
-    const updatedDoc = await Hero.findOneAndUpdate(
-      { tokenId },
-      {
-        tokenId,
-        // you can store additional fields from metadata if you like
-        name: metadata.name,
-        description: metadata.description,
-        image: metadata.image,
-        attributes: metadata.attributes || [],
-        isRevealed: true,
-      },
-      { upsert: true, new: true }
-    );
+    // If it's revealed, mark it in DB (keeping a snapshot of the unrevealed state)
+    const update = await storeHeroMetadata(tokenId, metadata, "reveal", {
+      isRevealed: true,
+    });
 
     console.log(
-      `[detectAndStoreReveal] Token #${tokenId} is revealed. DB updated. Document:`,
-      updatedDoc
+      `[detectAndStoreReveal] Token #${tokenId} is revealed. DB updated (version ${update.version}).`,
+      update.diff ? describeDiff(update.diff) : []
     );
     return true;
   } catch (err: any) {
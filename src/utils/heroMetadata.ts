@@ -0,0 +1,140 @@
+// path: src/utils/heroMetadata.ts
+// Dev note: The single place fetched metadata is written to the Hero collection. Each write that changes a hero's
+// name, image or attributes first appends a versioned snapshot, and returns what changed so callers can act on it.
+
+import { Hero } from "../db/hero.model";
+import {
+  appendSnapshot,
+  getLatestSnapshot,
+  listSnapshots,
+  type IHeroSnapshot,
+} from "../db/heroSnapshot.model";
+import { type HeroMetadata } from "../notifiers/types";
+import { diffMetadata, isEmptyDiff, type MetadataDiff } from "./metadataDiff";
+
+const MAX_VERSION_ATTEMPTS = 3; // Concurrent writers of the same hero retry this many times
+
+export interface MetadataUpdate {
+  // Version of the hero's latest snapshot after the write
+  version: number;
+  // Changes since the previous snapshot, null for a hero's first snapshot
+  diff: MetadataDiff | null;
+}
+
+export interface SnapshotHistoryEntry {
+  snapshot: IHeroSnapshot;
+  // Changes from the previous version, null for the first one
+  diff: MetadataDiff | null;
+}
+
+/**
+ * Returns true if a metadata write changed the hero (first snapshots excluded).
+ */
+export function hasChanged(update: MetadataUpdate): boolean {
+  return update.diff !== null && !isEmptyDiff(update.diff);
+}
+
+/**
+ * The state to diff new metadata against: the latest snapshot, or for heroes
+ * stored before snapshots existed, their current Hero document.
+ */
+async function getPreviousState(
+  tokenId: number
+): Promise<{ version: number; metadata: HeroMetadata } | null> {
+  const latest = await getLatestSnapshot(tokenId);
+  if (latest) return { version: latest.version, metadata: latest };
+
+  const hero = await Hero.findOne(
+    { tokenId },
+    { name: 1, description: 1, image: 1, attributes: 1 }
+  ).lean();
+  if (!hero?.name) return null;
+
+  // Keep what the hero looked like before its first snapshot
+  const baseline: HeroMetadata = {
+    name: hero.name,
+    description: hero.description,
+    image: hero.image,
+    attributes: hero.attributes || [],
+  };
+  const created = await appendSnapshot({
+    ...baseline,
+    attributes: baseline.attributes || [],
+    tokenId,
+    version: 1,
+    source: "existing",
+    capturedAt: new Date(),
+  });
+  // Lost the race to another writer, use its snapshot instead
+  if (!created) return getPreviousState(tokenId);
+  return { version: 1, metadata: baseline };
+}
+
+/**
+ * Append a snapshot if the metadata changed, then write it to the Hero
+ * document along with any extra fields (e.g. isRevealed).
+ */
+export async function storeHeroMetadata(
+  tokenId: number,
+  metadata: HeroMetadata,
+  source: string,
+  extra: { isRevealed?: boolean } = {}
+): Promise<MetadataUpdate> {
+  let update: MetadataUpdate | null = null;
+
+  for (let attempt = 1; attempt <= MAX_VERSION_ATTEMPTS && !update; attempt++) {
+    const previous = await getPreviousState(tokenId);
+    const diff = previous ? diffMetadata(previous.metadata, metadata) : null;
+    if (previous && diff && isEmptyDiff(diff)) {
+      update = { version: previous.version, diff };
+      break;
+    }
+
+    const version = (previous?.version ?? 0) + 1;
+    const created = await appendSnapshot({
+      tokenId,
+      version,
+      name: metadata.name,
+      description: metadata.description,
+      image: metadata.image,
+      attributes: metadata.attributes || [],
+      source,
+      capturedAt: new Date(),
+    });
+    if (created) update = { version, diff };
+  }
+
+  if (!update) {
+    throw new Error(
+      `Could not store a snapshot of hero #${tokenId} after ${MAX_VERSION_ATTEMPTS} attempts.`
+    );
+  }
+
+  await Hero.findOneAndUpdate(
+    { tokenId },
+    {
+      tokenId,
+      name: metadata.name,
+      description: metadata.description,
+      image: metadata.image,
+      attributes: metadata.attributes || [],
+      ...extra,
+    },
+    { upsert: true }
+  );
+
+  return update;
+}
+
+/**
+ * A hero's snapshots, oldest first, each with the changes from the previous one.
+ */
+export async function getSnapshotHistory(
+  tokenId: number
+): Promise<SnapshotHistoryEntry[]> {
+  const snapshots = await listSnapshots(tokenId);
+  return snapshots.map((snapshot, i) => ({
+    snapshot,
+    diff: i === 0 ? null : diffMetadata(snapshots[i - 1], snapshot),
+  }));
+}
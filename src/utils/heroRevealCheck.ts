@@ -15,6 +15,7 @@ export async function isHeroRevealed(tokenIdStr: string): Promise<boolean> {
 
 /**
  * Mark a hero as revealed in the Hero collection.
+ * The first time, also record when it was revealed (used for its lifespan).
  */
 export async function setHeroRevealed(tokenIdStr: string): Promise<void> {
   const tokenId = Number(tokenIdStr);
@@ -23,4 +24,8 @@ export async function setHeroRevealed(tokenIdStr: string): Promise<void> {
     { isRevealed: true },
     { upsert: true }
   );
+  await Hero.updateOne(
+    { tokenId, revealedAt: { $exists: false } },
+    { revealedAt: new Date() }
+  );
 }
@@ -1,40 +1,77 @@
 // path: src/utils/metadata.ts
-// Dev note: Utility function to fetch metadata, then send alert (e.g. a tweet).
+// Dev note: Utility function to fetch metadata, store it and rank the hero, then send alert (e.g. a tweet)
+// through the enabled notifiers. Errors are rethrown so the reveal queue can retry the job.
 
 import axios from "axios";
 import { NFT_COLLECTION_BASE_URI } from "../config";
-import { tweetReveal } from "../twitter/twitter";
+import { type EventRef } from "../db/alert.model";
+import { getWallet } from "../db/wallet.model";
+import { dispatchAlert, type HeroMetadata } from "../notifiers";
+import { recordRevealRarity, type HeroRarity } from "../rarity/rarityEngine";
+import { storeHeroMetadata } from "./heroMetadata";
+
+const UNREVEALED_URL = "https://storage.onchainheroes.xyz/unrevealed/hero.gif";
 
 export async function fetchMetadataAndAlert(
   tokenId: string,
-  owner: string
+  owner: string,
+  event: EventRef
 ): Promise<void> {
-  try {
-    // Small delay to ensure metadata is updated on chain or in external APIs
-    await new Promise((r) => setTimeout(r, 5000));
+  const metadataUrl = `${NFT_COLLECTION_BASE_URI}${tokenId}`;
+  console.log(`[fetchMetadataAndAlert] Fetching metadata from: ${metadataUrl}`);
+
+  const response = await axios.get(metadataUrl, { timeout: 10000 });
+  const metadata: HeroMetadata = response.data;
+
+  // If image is still "unrevealed", fail so the job is retried later
+  if (!metadata?.image || metadata.image === UNREVEALED_URL) {
+    throw new Error(`Token #${tokenId} is still unrevealed.`);
+  }
+
+  const levelAttr = metadata?.attributes?.find(
+    (attr) => attr.trait_type === "Season 1 Level"
+  );
+  const level = levelAttr ? Number(levelAttr.value) : undefined;
 
-    const metadataUrl = `${NFT_COLLECTION_BASE_URI}${tokenId}`;
+  // A hero above level 1 was revealed long ago, don't announce it again
+  if (level && level > 1) {
     console.log(
-      `[fetchMetadataAndAlert] Fetching metadata from: ${metadataUrl}`
+      `[fetchMetadataAndAlert] Token #${tokenId} level > 1. Already revealed.`
     );
+    return;
+  }
 
-    const response = await axios.get(metadataUrl);
-    const metadata = response.data;
-
-    console.log(`[fetchMetadataAndAlert] Metadata for #${tokenId}:`, metadata);
+  // Keep the revealed metadata, the rarity engine ranks heroes from it
+  await storeHeroMetadata(Number(tokenId), metadata, "reveal");
 
-    // If metadata contains an image URL, proceed to tweet
-    if (metadata.image) {
-      await tweetReveal(tokenId, owner, metadata.image);
-    } else {
-      console.warn(
-        `[fetchMetadataAndAlert] No image found in metadata for token #${tokenId}`
-      );
-    }
-  } catch (error) {
+  // A missing rank shouldn't hold back the alert
+  let rarity: HeroRarity | null = null;
+  try {
+    rarity = await recordRevealRarity(
+      Number(tokenId),
+      metadata.attributes || []
+    );
+  } catch (err) {
     console.error(
-      "[fetchMetadataAndAlert] Error fetching metadata or sending alert:",
-      error
+      `[fetchMetadataAndAlert] Failed to rank token #${tokenId}:`,
+      err
     );
   }
+
+  const wallet = await getWallet(owner);
+
+  console.log(
+    `[fetchMetadataAndAlert] Token #${tokenId} is revealed! Sending alerts...`
+  );
+  await dispatchAlert({
+    type: "reveal",
+    tokenId: Number(tokenId),
+    owner,
+    ownerLabel: wallet?.label,
+    metadata,
+    rarityRank: rarity?.rank,
+    rarityTotal: rarity?.total,
+    rarestTraits: rarity?.rarestTraits,
+    event,
+  });
 }
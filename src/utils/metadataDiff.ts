@@ -0,0 +1,87 @@
+// path: src/utils/metadataDiff.ts
+// Dev note: Compare two versions of a hero's metadata: which top-level fields changed and which traits were
+// added, removed or changed value. Traits are matched by trait_type, their order in the array doesn't matter.
+
+import { type HeroAttribute, type HeroMetadata } from "../notifiers/types";
+
+// Fields compared besides the attributes
+const DIFFED_FIELDS = ["name", "image"] as const;
+
+export interface FieldChange {
+  field: (typeof DIFFED_FIELDS)[number];
+  before?: string;
+  after?: string;
+}
+
+export interface TraitChange {
+  trait_type: string;
+  // undefined when the trait was added
+  before?: HeroAttribute["value"];
+  // undefined when the trait was removed
+  after?: HeroAttribute["value"];
+}
+
+export interface MetadataDiff {
+  fields: FieldChange[];
+  traits: TraitChange[];
+}
+
+function toTraitMap(
+  attributes: HeroAttribute[] = []
+): Map<string, HeroAttribute["value"]> {
+  return new Map(attributes.map((attr) => [attr.trait_type, attr.value]));
+}
+
+/**
+ * Changes from `before` to `after`. Trait values are compared as strings, so
+ * a level served as 3 or "3" isn't reported as a change.
+ */
+export function diffMetadata(
+  before: HeroMetadata,
+  after: HeroMetadata
+): MetadataDiff {
+  const fields: FieldChange[] = DIFFED_FIELDS.filter(
+    (field) => (before[field] ?? "") !== (after[field] ?? "")
+  ).map((field) => ({ field, before: before[field], after: after[field] }));
+
+  const beforeTraits = toTraitMap(before.attributes);
+  const afterTraits = toTraitMap(after.attributes);
+  const traitTypes = new Set([...beforeTraits.keys(), ...afterTraits.keys()]);
+
+  const traits: TraitChange[] = [];
+  for (const trait_type of traitTypes) {
+    const beforeValue = beforeTraits.get(trait_type);
+    const afterValue = afterTraits.get(trait_type);
+    if (String(beforeValue) === String(afterValue)) continue;
+    traits.push({ trait_type, before: beforeValue, after: afterValue });
+  }
+
+  return { fields, traits };
+}
+
+/**
+ * Whether a diff has no changes at all.
+ */
+export function isEmptyDiff(diff: MetadataDiff): boolean {
+  return diff.fields.length === 0 && diff.traits.length === 0;
+}
+
+/**
+ * One line per change, e.g. `Season 1 Level: 3 -> 4` or `+ Weapon: Sword`.
+ */
+export function describeDiff(diff: MetadataDiff): string[] {
+  const lines = diff.fields.map(
+    (change) =>
+      `${change.field}: ${change.before ?? "(none)"} -> ${change.after ?? "(none)"}`
+  );
+  for (const change of diff.traits) {
+    if (change.before === undefined) {
+      lines.push(`+ ${change.trait_type}: ${change.after}`);
+    } else if (change.after === undefined) {
+      lines.push(`- ${change.trait_type}: ${change.before}`);
+    } else {
+      lines.push(`${change.trait_type}: ${change.before} -> ${change.after}`);
+    }
+  }
+  return lines;
+}
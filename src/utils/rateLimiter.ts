@@ -0,0 +1,67 @@
+// path: src/utils/rateLimiter.ts
+// Dev note: Token-bucket rate limiter. Callers await acquire() before each request; the bucket refills continuously.
+
+export interface RateLimiter {
+  // Resolves once a token is available (callers are served in order)
+  acquire(): Promise<void>;
+  // Block every caller for a while, e.g. after a 429 response
+  pauseFor(ms: number): void;
+}
+
+/**
+ * Create a bucket allowing `tokensPerInterval` requests per `intervalMs`,
+ * with bursts of up to `tokensPerInterval` requests.
+ */
+export function createRateLimiter({
+  tokensPerInterval,
+  intervalMs,
+}: {
+  tokensPerInterval: number;
+  intervalMs: number;
+}): RateLimiter {
+  const msPerToken = intervalMs / tokensPerInterval;
+  let tokens = tokensPerInterval;
+  let lastRefillAt = Date.now();
+  let pausedUntil = 0;
+  // Chain of waiters so tokens are handed out in call order
+  let queue: Promise<void> = Promise.resolve();
+
+  function refill() {
+    const now = Date.now();
+    tokens = Math.min(
+      tokensPerInterval,
+      tokens + (now - lastRefillAt) / msPerToken
+    );
+    lastRefillAt = now;
+  }
+
+  async function waitForToken() {
+    for (;;) {
+      const pauseMs = pausedUntil - Date.now();
+      if (pauseMs > 0) {
+        await new Promise((resolve) => setTimeout(resolve, pauseMs));
+        continue;
+      }
+
+      refill();
+      if (tokens >= 1) {
+        tokens -= 1;
+        return;
+      }
+      await new Promise((resolve) =>
+        setTimeout(resolve, Math.ceil((1 - tokens) * msPerToken))
+      );
+    }
+  }
+
+  return {
+    acquire() {
+      const next = queue.then(waitForToken);
+      queue = next.catch(() => undefined);
+      return next;
+    },
+    pauseFor(ms: number) {
+      pausedUntil = Math.max(pausedUntil, Date.now() + ms);
+    },
+  };
+}
@@ -0,0 +1,72 @@
+// path: src/utils/retry.ts
+// Dev note: Small helper to retry an async operation with exponential backoff, and the error thrown by operations
+// that are put off without being attempted.
+
+export interface RetryOptions {
+  // Attempts after the first one
+  retries: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // Return false to give up right away (e.g. on a 4xx response)
+  shouldRetry?: (error: unknown) => boolean;
+  // Return a delay to wait instead of the backoff (e.g. a Retry-After header)
+  getDelayMs?: (error: unknown) => number | undefined;
+  // Used as the log prefix
+  label: string;
+}
+
+/**
+ * An operation that wasn't attempted and can't be before `retryAt` (e.g. X
+ * logins are throttled). Callers counting attempts, like the send queue,
+ * reschedule it without counting one.
+ */
+export type DeferredError = Error & { retryAt: Date };
+
+export function createDeferredError(
+  message: string,
+  retryAt: Date
+): DeferredError {
+  return Object.assign(new Error(message), { retryAt });
+}
+
+export function isDeferredError(err: unknown): err is DeferredError {
+  return (
+    err instanceof Error &&
+    (err as Partial<DeferredError>).retryAt instanceof Date
+  );
+}
+
+/**
+ * Run `fn`, retrying up to `retries` times with exponential backoff.
+ * The last error is rethrown once the retries are exhausted.
+ */
+export async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  options: RetryOptions
+): Promise<T> {
+  const {
+    retries,
+    baseDelayMs = 1000,
+    maxDelayMs = 30_000,
+    shouldRetry = () => true,
+    getDelayMs = () => undefined,
+    label,
+  } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (err) {
+      if (attempt > retries || !shouldRetry(err)) {
+        throw err;
+      }
+      const delayMs =
+        getDelayMs(err) ??
+        Math.min(baseDelayMs * 2 ** (attempt - 1), maxDelayMs);
+      console.warn(
+        `[${label}] Attempt ${attempt} failed (${(err as Error).message}). Retrying in ${delayMs}ms...`
+      );
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+}